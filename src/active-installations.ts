@@ -0,0 +1,109 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient } from "./prisma/client.js";
+import { getActiveInstallations } from "./lib/active-installations.js";
+import { formatStatsDay, toUtcDay } from "./lib/stats.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ActiveInstallationDimensionEnum = z
+  .enum(["ALL", "VERSION", "PLATFORM", "ARCH", "OS_RELEASE"])
+  .describe(
+    "Field to break the counts down by. OS_RELEASE groups the os releases into families, eg Windows 11"
+  );
+
+const ActiveCountsObject = z.object({
+  daily: z.number().describe("Installations seen in the last day"),
+  weekly: z.number().describe("Installations seen in the last 7 days"),
+  monthly: z.number().describe("Installations seen in the last 30 days"),
+});
+
+export function registerActiveInstallationRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/stats/active/:app",
+    params: z.object({
+      app: z.string().describe("Name of the application"),
+    }),
+    query: z.object({
+      breakdown: ActiveInstallationDimensionEnum.default("ALL"),
+      days: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(730)
+        .default(90)
+        .describe("Number of days of history to report"),
+    }),
+    response: z.object({
+      ok: z.boolean(),
+      current: z.array(
+        ActiveCountsObject.extend({
+          value: z.string().describe("Value of the dimension, empty for ALL"),
+        })
+      ),
+      trends: z
+        .array(
+          z.object({
+            value: z.string(),
+            days: z.array(
+              ActiveCountsObject.extend({
+                date: z.string(),
+              })
+            ),
+          })
+        )
+        .describe("Daily history of the counts, from the recorded snapshots"),
+    }),
+    config: {
+      description:
+        "Get the daily, weekly and monthly active installations of an application",
+      tags: ["Stats"],
+    },
+    handler: async (request) => {
+      const appName = request.params.app;
+      const dimension = request.query.breakdown;
+      const since = toUtcDay(
+        new Date(Date.now() - request.query.days * DAY_MS)
+      );
+
+      const [current, snapshots] = await Promise.all([
+        getActiveInstallations(prisma, appName, dimension),
+        prisma.activeInstallationSnapshot.findMany({
+          where: {
+            app_name: appName,
+            dimension,
+            date: { gte: since },
+          },
+          orderBy: [{ date: "asc" }],
+        }),
+      ]);
+
+      const trends = new Map<
+        string,
+        Array<z.infer<typeof ActiveCountsObject> & { date: string }>
+      >();
+      for (const snapshot of snapshots) {
+        let days = trends.get(snapshot.value);
+        if (!days) {
+          days = [];
+          trends.set(snapshot.value, days);
+        }
+        days.push({
+          date: formatStatsDay(snapshot.date),
+          daily: snapshot.daily_active,
+          weekly: snapshot.weekly_active,
+          monthly: snapshot.monthly_active,
+        });
+      }
+
+      return {
+        ok: true,
+        current,
+        trends: Array.from(trends, ([value, days]) => ({ value, days })),
+      };
+    },
+  });
+}
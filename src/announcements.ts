@@ -0,0 +1,321 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient, type Announcement } from "./prisma/client.js";
+import semver from "semver";
+import * as Sentry from "@sentry/node";
+import { BUILD_CHANNELS } from "./lib/apps.js";
+import {
+  setActiveAnnouncements,
+  splitTargetList,
+} from "./lib/announcements.js";
+
+const SemverRange = z
+  .string()
+  .max(128)
+  .refine(
+    (range: string) => semver.validRange(range, { loose: true }) !== null,
+    {
+      message: "Invalid semver range",
+    }
+  );
+
+const BuildChannelEnum = z.enum(BUILD_CHANNELS);
+
+/**
+ * A list of values, stored comma separated in a column of `maxLength`
+ */
+function targetList(maxLength: number) {
+  return z
+    .array(z.string())
+    .refine((values: string[]) => values.join(",").length <= maxLength, {
+      message: `Must be at most ${maxLength} characters when comma separated`,
+    });
+}
+
+const AnnouncementBody = z.object({
+  message: z.string().min(1).max(512).describe("Text shown to the user"),
+  link: z.string().url().max(255).nullish().describe("Optional link"),
+
+  enabled: z.boolean().default(true),
+  priority: z
+    .number()
+    .int()
+    .default(0)
+    .describe("The highest priority matching announcement is shown"),
+  startsAt: z.coerce.date().describe("When to start showing the announcement"),
+  endsAt: z.coerce
+    .date()
+    .nullish()
+    .describe("When to stop showing the announcement"),
+
+  appName: z
+    .string()
+    .max(16)
+    .nullish()
+    .describe("Only show to this application"),
+  appVersionRange: SemverRange.nullish().describe(
+    "Only show to app versions matching this semver range"
+  ),
+  buildChannels: z
+    .array(BuildChannelEnum)
+    .nullish()
+    .describe("Only show to these build channels"),
+  osPlatforms: targetList(128)
+    .nullish()
+    .describe("Only show to these os platforms (eg win32, darwin, linux)"),
+  osArchs: targetList(64)
+    .nullish()
+    .describe("Only show to these architectures (eg x64, arm64)"),
+  osReleaseRange: SemverRange.nullish().describe(
+    "Only show to os releases matching this semver range"
+  ),
+});
+type AnnouncementBodyType = z.infer<typeof AnnouncementBody>;
+
+const AnnouncementObject = AnnouncementBody.extend({
+  id: z.number(),
+  startsAt: z.string(),
+  endsAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const AnnouncementIdParams = z.object({
+  id: z.coerce.number().int().describe("Id of the announcement"),
+});
+
+const AnnouncementResponse = z.object({
+  ok: z.boolean(),
+  message: z.string().optional().describe("Reason for a failure"),
+  announcement: AnnouncementObject.optional(),
+});
+
+export function registerAnnouncementRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/announcements",
+    response: z.object({
+      ok: z.boolean(),
+      announcements: z.array(AnnouncementObject),
+    }),
+    config: {
+      description: "List all announcements",
+      tags: ["Admin"],
+    },
+    handler: async () => {
+      const rows = await prisma.announcement.findMany({
+        orderBy: [{ starts_at: "desc" }, { id: "desc" }],
+      });
+
+      return {
+        ok: true,
+        announcements: rows.map(formatAnnouncementRow),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "POST",
+    url: "/admin/announcements",
+    body: AnnouncementBody,
+    response: AnnouncementResponse,
+    config: {
+      description: "Create an announcement",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const invalidReason = validateAnnouncementBody(request.body);
+      if (invalidReason) {
+        return {
+          ok: false,
+          message: invalidReason,
+        };
+      }
+
+      const row = await prisma.announcement.create({
+        data: toAnnouncementRow(request.body),
+      });
+
+      await refreshAnnouncements(prisma);
+
+      return {
+        ok: true,
+        announcement: formatAnnouncementRow(row),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "PUT",
+    url: "/admin/announcements/:id",
+    params: AnnouncementIdParams,
+    body: AnnouncementBody,
+    response: AnnouncementResponse,
+    config: {
+      description: "Replace an announcement",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const invalidReason = validateAnnouncementBody(request.body);
+      if (invalidReason) {
+        return {
+          ok: false,
+          message: invalidReason,
+        };
+      }
+
+      const { count } = await prisma.announcement.updateMany({
+        where: { id: request.params.id },
+        data: toAnnouncementRow(request.body),
+      });
+      if (count === 0) {
+        return {
+          ok: false,
+          message: "Unknown announcement",
+        };
+      }
+
+      await refreshAnnouncements(prisma);
+
+      const row = await prisma.announcement.findUniqueOrThrow({
+        where: { id: request.params.id },
+      });
+      return {
+        ok: true,
+        announcement: formatAnnouncementRow(row),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "DELETE",
+    url: "/admin/announcements/:id",
+    params: AnnouncementIdParams,
+    response: AnnouncementResponse,
+    config: {
+      description: "Delete an announcement",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const { count } = await prisma.announcement.deleteMany({
+        where: { id: request.params.id },
+      });
+      if (count === 0) {
+        return {
+          ok: false,
+          message: "Unknown announcement",
+        };
+      }
+
+      await refreshAnnouncements(prisma);
+
+      return {
+        ok: true,
+      };
+    },
+  });
+}
+
+function toAnnouncementRow(
+  body: AnnouncementBodyType
+): Omit<Announcement, "id" | "createdAt" | "updatedAt"> {
+  return {
+    message: body.message,
+    link: body.link ?? null,
+
+    enabled: body.enabled,
+    priority: body.priority,
+    starts_at: body.startsAt,
+    ends_at: body.endsAt ?? null,
+
+    app_name: body.appName || null,
+    app_version_range: body.appVersionRange || null,
+    build_channels: body.buildChannels?.join(",") || null,
+    os_platforms: body.osPlatforms?.join(",") || null,
+    os_archs: body.osArchs?.join(",") || null,
+    os_release_range: body.osReleaseRange || null,
+  };
+}
+
+/**
+ * Check the parts of an announcement which can't be expressed in the schema
+ * @returns The reason it is invalid, if it is
+ */
+function validateAnnouncementBody(
+  body: AnnouncementBodyType
+): string | undefined {
+  if (body.endsAt && body.endsAt <= body.startsAt) {
+    return "endsAt must be after startsAt";
+  }
+  return undefined;
+}
+
+/**
+ * Parse the stored build channels, ignoring any which are not known
+ */
+function parseBuildChannels(
+  value: string | null
+): z.infer<typeof BuildChannelEnum>[] | null {
+  const channels = splitTargetList(value)?.flatMap((channel) => {
+    const parsed = BuildChannelEnum.safeParse(channel);
+    return parsed.success ? [parsed.data] : [];
+  });
+  return channels?.length ? channels : null;
+}
+
+function formatAnnouncementRow(
+  row: Announcement
+): z.infer<typeof AnnouncementObject> {
+  return {
+    id: row.id,
+    message: row.message,
+    link: row.link,
+
+    enabled: row.enabled,
+    priority: row.priority,
+    startsAt: row.starts_at.toISOString(),
+    endsAt: row.ends_at?.toISOString() ?? null,
+
+    appName: row.app_name,
+    appVersionRange: row.app_version_range,
+    buildChannels: parseBuildChannels(row.build_channels),
+    osPlatforms: splitTargetList(row.os_platforms),
+    osArchs: splitTargetList(row.os_archs),
+    osReleaseRange: row.os_release_range,
+
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+async function refreshAnnouncements(prisma: PrismaClient): Promise<void> {
+  const rows = await prisma.announcement.findMany({
+    where: {
+      enabled: true,
+      OR: [{ ends_at: null }, { ends_at: { gt: new Date() } }],
+    },
+  });
+
+  setActiveAnnouncements(rows);
+}
+
+/**
+ * Load the active announcements, and keep them updated so that scheduled announcements start and end on time
+ */
+export async function startAnnouncementsRefresh(
+  prisma: PrismaClient
+): Promise<void> {
+  const doRefresh = () =>
+    refreshAnnouncements(prisma).catch((err) => {
+      console.error("Error loading announcements:", err);
+      Sentry.captureException(err, {});
+    });
+
+  setInterval(() => {
+    doRefresh();
+  }, 60 * 1000);
+
+  await doRefresh();
+}
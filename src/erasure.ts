@@ -0,0 +1,128 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient } from "./prisma/client.js";
+import {
+  eraseInstallationData,
+  findErasureReceipt,
+} from "./lib/erase-installation.js";
+
+const ErasureParams = z.object({
+  id: z
+    .string()
+    .min(1)
+    .max(64)
+    .describe("Unique identifier for the installation"),
+});
+
+const ErasureResponse = z.object({
+  ok: z.boolean(),
+  message: z.string().optional().describe("Reason for a failure"),
+  receipt: z
+    .object({
+      receiptId: z.string().describe("Reference for the erasure"),
+      erasedAt: z.string(),
+      deleted: z
+        .record(z.string(), z.number())
+        .describe("Rows deleted, per table"),
+      anonymized: z
+        .record(z.string(), z.number())
+        .describe(
+          "Rows of the usage history which are no longer linked to the installation, per table"
+        ),
+    })
+    .optional(),
+});
+
+export function registerErasureRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "DELETE",
+    url: "/companion/usage/:id",
+    params: ErasureParams,
+    response: ErasureResponse,
+    config: {
+      description:
+        "Erase the usage data of an installation, when the user opts out of telemetry",
+      tags: ["Usage"],
+    },
+    handler: async (request) => {
+      const receipt = await eraseInstallationData(prisma, request.params.id);
+      if (!receipt) {
+        return {
+          ok: false,
+          message: "No data is held for the installation",
+        };
+      }
+
+      // The id is not logged, as the point is to forget it
+      console.log("Installation data erased: receipt %s", receipt.receiptId);
+
+      return {
+        ok: true,
+        receipt,
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "DELETE",
+    url: "/admin/installations/:id",
+    params: ErasureParams,
+    response: ErasureResponse,
+    config: {
+      description:
+        "Erase the usage data of an installation, for an erasure request received by other means",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const receipt = await eraseInstallationData(prisma, request.params.id);
+      if (!receipt) {
+        return {
+          ok: false,
+          message: "No data is held for the installation",
+        };
+      }
+
+      console.log(
+        "Installation data erased by admin: receipt %s",
+        receipt.receiptId
+      );
+
+      return {
+        ok: true,
+        receipt,
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/erasures/:receiptId",
+    params: z.object({
+      receiptId: z.string().describe("Reference given for the erasure"),
+    }),
+    response: ErasureResponse,
+    config: {
+      description: "Confirm an earlier erasure, by its receipt",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const receipt = await findErasureReceipt(
+        prisma,
+        request.params.receiptId
+      );
+      if (!receipt) {
+        return {
+          ok: false,
+          message: "Unknown receipt",
+        };
+      }
+
+      return {
+        ok: true,
+        receipt,
+      };
+    },
+  });
+}
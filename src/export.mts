@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+
+/**
+ * Export an aggregated dataset of the usage stats, for sharing with partners or publishing
+ *
+ * This script:
+ * - Writes the dataset to stdout as CSV or NDJSON, streamed as the rows are produced
+ * - Leaves out any group with fewer installations than the threshold (EXPORT_MIN_INSTALLATIONS, default 10), which MIN_INSTALLATIONS can raise
+ *
+ * Datasets: module-adoption, surface-models, feature-flags, versions
+ *
+ * Usage:
+ *   DATASET=module-adoption FORMAT=csv DAYS=30 node export.mjs > module-adoption.csv
+ */
+
+import { Readable, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import { PrismaClient } from "./prisma/client.js";
+import { PrismaMariaDb } from "@prisma/adapter-mariadb";
+import {
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  exportDataset,
+  getExportMinInstallations,
+  type ExportDataset,
+  type ExportFormat,
+} from "./lib/stats-export.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Configuration from environment variables
+const DATASET = process.env.DATASET || "";
+const FORMAT = process.env.FORMAT || "csv";
+const DAYS = parseInt(process.env.DAYS || "30");
+const MIN_INSTALLATIONS = process.env.MIN_INSTALLATIONS
+  ? Number(process.env.MIN_INSTALLATIONS)
+  : undefined;
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is required");
+}
+
+if (!EXPORT_DATASETS.includes(DATASET as ExportDataset)) {
+  throw new Error(
+    `DATASET environment variable must be one of: ${EXPORT_DATASETS.join(", ")}`
+  );
+}
+if (!EXPORT_FORMATS.includes(FORMAT as ExportFormat)) {
+  throw new Error(
+    `FORMAT environment variable must be one of: ${EXPORT_FORMATS.join(", ")}`
+  );
+}
+if (!(DAYS > 0)) {
+  throw new Error("DAYS environment variable must be a positive number");
+}
+if (
+  MIN_INSTALLATIONS !== undefined &&
+  !(Number.isInteger(MIN_INSTALLATIONS) && MIN_INSTALLATIONS > 0)
+) {
+  throw new Error(
+    "MIN_INSTALLATIONS environment variable must be a positive integer"
+  );
+}
+
+const adapter = new PrismaMariaDb(connectionString);
+const prisma = new PrismaClient({
+  adapter,
+});
+
+async function main() {
+  const minInstallations = getExportMinInstallations(MIN_INSTALLATIONS);
+
+  // Progress is written to stderr, as stdout holds the export
+  console.error(`Exporting ${DATASET} as ${FORMAT}`);
+  console.error(`Installations seen in the last ${DAYS} days`);
+  console.error(`Minimum installations per group: ${minInstallations}`);
+
+  let lineCount = 0;
+  try {
+    await prisma.$connect();
+
+    const lines = exportDataset(
+      prisma,
+      DATASET as ExportDataset,
+      FORMAT as ExportFormat,
+      {
+        since: new Date(Date.now() - DAYS * DAY_MS),
+        minInstallations,
+      }
+    );
+
+    await pipeline(
+      Readable.from(lines),
+      new Writable({
+        write(chunk, _encoding, callback) {
+          lineCount++;
+          if (process.stdout.write(chunk)) {
+            callback();
+          } else {
+            process.stdout.once("drain", () => callback());
+          }
+        },
+      })
+    );
+
+    console.error(`✓ Exported ${lineCount.toLocaleString()} lines`);
+  } catch (error) {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient } from "./prisma/client.js";
+import {
+  FEATURE_GROUP_FIELDS,
+  getFeatureStats,
+  UNKNOWN_VALUE,
+} from "./lib/feature-stats.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function registerFeatureStatsRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/stats/features",
+    query: z.object({
+      days: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(365)
+        .default(30)
+        .describe("Only report installations seen in this many days"),
+      groupBy: z
+        .preprocess(
+          (value: unknown) =>
+            typeof value === "string" ? value.split(",") : value,
+          z.array(z.enum(FEATURE_GROUP_FIELDS)).default([])
+        )
+        .describe(
+          "Comma separated fields to report the installations separately by"
+        ),
+    }),
+    response: z.object({
+      ok: z.boolean(),
+      since: z.string(),
+      groups: z.array(
+        z.object({
+          group: z
+            .record(z.string(), z.string())
+            .describe("Values of the grouping fields"),
+          installations: z.number(),
+          flags: z.record(
+            z.string(),
+            z.object({
+              enabled: z.number(),
+              disabled: z.number(),
+              unknown: z
+                .number()
+                .describe("Installations not reporting the flag"),
+              percentage: z
+                .number()
+                .nullable()
+                .describe(
+                  "Percentage of the installations reporting the flag which have it enabled"
+                ),
+            })
+          ),
+          distributions: z
+            .record(z.string(), z.record(z.string(), z.number()))
+            .describe(
+              `Number of installations with each value, with "${UNKNOWN_VALUE}" for those not reporting it`
+            ),
+          counts: z.record(
+            z.string(),
+            z.object({
+              unknown: z
+                .number()
+                .describe("Installations not reporting the count"),
+              mean: z.number().nullable(),
+              percentiles: z.record(z.string(), z.number().nullable()),
+            })
+          ),
+        })
+      ),
+    }),
+    config: {
+      description:
+        "Get the adoption of features by recently seen installations, optionally grouped by version or platform",
+      tags: ["Stats"],
+    },
+    handler: async (request) => {
+      const since = new Date(Date.now() - request.query.days * DAY_MS);
+
+      const groups = await getFeatureStats(
+        prisma,
+        since,
+        request.query.groupBy
+      );
+
+      return {
+        ok: true,
+        since: since.toISOString(),
+        groups,
+      };
+    },
+  });
+}
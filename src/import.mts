@@ -16,6 +16,8 @@
 import mariadb from "mariadb";
 import { PrismaClient } from "./prisma/client.js";
 import { PrismaMariaDb } from "@prisma/adapter-mariadb";
+import { getAppDefinition } from "./lib/apps.js";
+import { getBuildInfoColumns, parseBuildInfo } from "./lib/build-info.js";
 
 // Configuration from environment variables
 const OLD_DB_CONFIG = {
@@ -199,6 +201,7 @@ async function processBatch(rows: any[]) {
       app_name: row.app_name,
       app_version: row.app_version,
       app_build: row.app_build,
+      ...getRowBuildInfoColumns(row),
       os_platform: row.os_platform,
       os_release: row.os_release,
       os_arch: row.os_arch,
@@ -256,6 +259,7 @@ async function processBatch(rows: any[]) {
           data: {
             app_version: row.app_version,
             app_build: row.app_build,
+            ...getRowBuildInfoColumns(row),
             os_platform: row.os_platform,
             os_release: row.os_release,
             os_arch: row.os_arch,
@@ -279,6 +283,11 @@ async function processBatch(rows: any[]) {
   }
 }
 
+function getRowBuildInfoColumns(row: any) {
+  const app = getAppDefinition(row.app_name);
+  return getBuildInfoColumns(app ? parseBuildInfo(app, row.app_build) : null);
+}
+
 main().catch((error) => {
   console.error("Unhandled error:", error);
   process.exit(1);
@@ -0,0 +1,213 @@
+import type { PrismaClient } from "../prisma/client.js";
+import type { ActiveInstallationDimension } from "../prisma/enums.js";
+import * as Sentry from "@sentry/node";
+import { getOsReleaseFamily } from "./platforms.js";
+import { toUtcDay } from "./stats.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The snapshot of the current day is rewritten periodically, so that it ends up reflecting the end of the day
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface ActiveInstallationCounts {
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export interface ActiveInstallationBreakdown extends ActiveInstallationCounts {
+  /** Value of the dimension, empty for ALL */
+  value: string;
+}
+
+const ACTIVE_WINDOWS = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+} satisfies Record<keyof ActiveInstallationCounts, number>;
+
+/**
+ * Count the installations of an app which have been seen recently, grouped by a dimension
+ */
+export async function getActiveInstallations(
+  prisma: PrismaClient,
+  appName: string,
+  dimension: ActiveInstallationDimension,
+  now: Date = new Date()
+): Promise<ActiveInstallationBreakdown[]> {
+  const results = new Map<string, ActiveInstallationBreakdown>();
+
+  for (const [window, days] of Object.entries(ACTIVE_WINDOWS)) {
+    const counts = await countActiveInstallations(
+      prisma,
+      appName,
+      dimension,
+      new Date(now.getTime() - days * DAY_MS)
+    );
+
+    for (const [value, count] of counts) {
+      let entry = results.get(value);
+      if (!entry) {
+        entry = { value, daily: 0, weekly: 0, monthly: 0 };
+        results.set(value, entry);
+      }
+      entry[window as keyof ActiveInstallationCounts] = count;
+    }
+  }
+
+  return Array.from(results.values()).sort((a, b) => b.monthly - a.monthly);
+}
+
+async function countActiveInstallations(
+  prisma: PrismaClient,
+  appName: string,
+  dimension: ActiveInstallationDimension,
+  since: Date
+): Promise<Map<string, number>> {
+  const where = { app_name: appName, updatedAt: { gte: since } };
+
+  switch (dimension) {
+    case "ALL":
+      return new Map([["", await prisma.user.count({ where })]]);
+    case "VERSION": {
+      const groups = await prisma.user.groupBy({
+        by: ["app_version"],
+        where,
+        _count: { _all: true },
+      });
+      return new Map(groups.map((g) => [g.app_version, g._count._all]));
+    }
+    case "PLATFORM": {
+      const groups = await prisma.user.groupBy({
+        by: ["os_platform"],
+        where,
+        _count: { _all: true },
+      });
+      return new Map(groups.map((g) => [g.os_platform, g._count._all]));
+    }
+    case "ARCH": {
+      const groups = await prisma.user.groupBy({
+        by: ["os_arch"],
+        where,
+        _count: { _all: true },
+      });
+      return new Map(groups.map((g) => [g.os_arch, g._count._all]));
+    }
+    case "OS_RELEASE": {
+      const groups = await prisma.user.groupBy({
+        by: ["os_platform", "os_release"],
+        where,
+        _count: { _all: true },
+      });
+
+      // Many releases belong to each family, so they are combined after grouping
+      const counts = new Map<string, number>();
+      for (const g of groups) {
+        const family = getOsReleaseFamily(g.os_platform, g.os_release).slice(
+          0,
+          64
+        ); // Trim to fit DB
+        counts.set(family, (counts.get(family) ?? 0) + g._count._all);
+      }
+      return counts;
+    }
+  }
+}
+
+const SNAPSHOT_DIMENSIONS: ActiveInstallationDimension[] = [
+  "ALL",
+  "VERSION",
+  "PLATFORM",
+  "ARCH",
+  "OS_RELEASE",
+];
+
+/**
+ * Record the current active installation counts of every app, as the snapshot of the current day
+ */
+export async function writeActiveInstallationSnapshots(
+  prisma: PrismaClient,
+  now: Date = new Date()
+): Promise<void> {
+  const date = toUtcDay(now);
+
+  const apps = await prisma.user.findMany({
+    where: { updatedAt: { gte: new Date(now.getTime() - 30 * DAY_MS) } },
+    distinct: ["app_name"],
+    select: { app_name: true },
+  });
+
+  for (const { app_name } of apps) {
+    for (const dimension of SNAPSHOT_DIMENSIONS) {
+      const breakdown = await getActiveInstallations(
+        prisma,
+        app_name,
+        dimension,
+        now
+      );
+
+      // Do in series to minimise connection usage
+      await prisma.$transaction(
+        async (tx) => {
+          // Values which are no longer active are removed, rather than left with the counts of an earlier run
+          await tx.activeInstallationSnapshot.deleteMany({
+            where: {
+              date,
+              app_name,
+              dimension,
+              value: { notIn: breakdown.map((b) => b.value) },
+            },
+          });
+
+          for (const entry of breakdown) {
+            const data = {
+              daily_active: entry.daily,
+              weekly_active: entry.weekly,
+              monthly_active: entry.monthly,
+            };
+            await tx.activeInstallationSnapshot.upsert({
+              where: {
+                date_app_dimension_value: {
+                  date,
+                  app_name,
+                  dimension,
+                  value: entry.value,
+                },
+              },
+              update: data,
+              create: {
+                date,
+                app_name,
+                dimension,
+                value: entry.value,
+                ...data,
+              },
+              select: { id: true },
+            });
+          }
+        },
+        {
+          timeout: 10000, // High timeout, due to number of operations
+        }
+      );
+    }
+  }
+}
+
+/**
+ * Periodically record the snapshot of the active installation counts
+ */
+export function startActiveInstallationSnapshots(prisma: PrismaClient): void {
+  const doSnapshot = () =>
+    writeActiveInstallationSnapshots(prisma).catch((err) => {
+      console.error("Error writing active installation snapshots:", err);
+      Sentry.captureException(err, {});
+    });
+
+  setInterval(() => {
+    doSnapshot();
+  }, SNAPSHOT_INTERVAL_MS);
+
+  // Not awaited, as the counts are not needed for startup
+  doSnapshot();
+}
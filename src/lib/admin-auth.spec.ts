@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createAdminAuthHook, type AdminAuthReply } from "./admin-auth.js";
+
+interface TestReply extends AdminAuthReply {
+  statusCode: number;
+  payload: unknown;
+}
+
+function createReply(): TestReply {
+  const reply: TestReply = {
+    statusCode: 200,
+    payload: undefined,
+    code(statusCode) {
+      reply.statusCode = statusCode;
+      return {
+        send(payload) {
+          reply.payload = payload;
+          return reply;
+        },
+      };
+    },
+  };
+  return reply;
+}
+
+describe("admin auth", () => {
+  const hook = createAdminAuthHook("secret");
+
+  it("rejects admin routes without the api key", async () => {
+    const reply = createReply();
+    await hook({ headers: {}, routeOptions: { url: "/admin/rollout" } }, reply);
+    assert.equal(reply.statusCode, 401);
+  });
+
+  it("rejects admin routes reached through an encoded path", async () => {
+    // The router decodes `/%61dmin/rollout` and matches it to `/admin/rollout`
+    const reply = createReply();
+    await hook(
+      {
+        headers: {},
+        routeOptions: { url: "/admin/rollout" },
+        url: "/%61dmin/rollout",
+      } as Parameters<typeof hook>[0],
+      reply
+    );
+    assert.equal(reply.statusCode, 401);
+  });
+
+  it("rejects a wrong api key", async () => {
+    const reply = createReply();
+    await hook(
+      {
+        headers: { authorization: "Bearer wrong" },
+        routeOptions: { url: "/admin/retention/run" },
+      },
+      reply
+    );
+    assert.equal(reply.statusCode, 401);
+  });
+
+  it("accepts the api key", async () => {
+    const reply = createReply();
+    await hook(
+      {
+        headers: { authorization: "Bearer secret" },
+        routeOptions: { url: "/admin/installations/:id" },
+      },
+      reply
+    );
+    assert.equal(reply.statusCode, 200);
+  });
+
+  it("ignores other routes", async () => {
+    const reply = createReply();
+    await hook({ headers: {}, routeOptions: { url: "/updates" } }, reply);
+    assert.equal(reply.statusCode, 200);
+  });
+
+  it("rejects everything when no api key is configured", async () => {
+    const reply = createReply();
+    await createAdminAuthHook(undefined)(
+      {
+        headers: { authorization: "Bearer " },
+        routeOptions: { url: "/admin/rollout" },
+      },
+      reply
+    );
+    assert.equal(reply.statusCode, 401);
+  });
+});
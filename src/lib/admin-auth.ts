@@ -0,0 +1,57 @@
+import type { APIServer } from "@bitfocusas/api";
+import crypto from "crypto";
+
+/** The parts of a fastify request used to authenticate it */
+export interface AdminAuthRequest {
+  headers: { authorization?: string };
+  /** The matched route, which is unset when no route matched */
+  routeOptions: { url?: string };
+}
+
+export interface AdminAuthReply {
+  code(statusCode: number): { send(payload: unknown): unknown };
+}
+
+/**
+ * Protect all routes under `/admin/` with a bearer token, provided in the `ADMIN_API_KEY` environment variable.
+ * If no key is configured, the admin routes are disabled.
+ */
+export function registerAdminAuth(app: APIServer): void {
+  const adminApiKey = process.env.ADMIN_API_KEY;
+  if (!adminApiKey) {
+    console.log("ADMIN_API_KEY not provided, admin endpoints are disabled");
+  }
+
+  app.instance.addHook("onRequest", createAdminAuthHook(adminApiKey));
+}
+
+/**
+ * Create the hook rejecting unauthenticated requests to the admin routes.
+ * The matched route pattern is checked rather than the url, as routes are matched after the url is decoded (eg `/%61dmin/`)
+ */
+export function createAdminAuthHook(adminApiKey: string | undefined) {
+  return async (request: AdminAuthRequest, reply: AdminAuthReply) => {
+    if (!request.routeOptions.url?.startsWith("/admin/")) return;
+
+    if (
+      !adminApiKey ||
+      !isValidApiKey(request.headers.authorization, adminApiKey)
+    ) {
+      reply.code(401).send({ ok: false, message: "Unauthorized" });
+      return reply;
+    }
+  };
+}
+
+function isValidApiKey(
+  authorization: string | undefined,
+  adminApiKey: string
+): boolean {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  // Compare hashes, so that the comparison is constant time regardless of the provided length
+  const provided = crypto.createHash("sha256").update(match[1]).digest();
+  const expected = crypto.createHash("sha256").update(adminApiKey).digest();
+  return crypto.timingSafeEqual(provided, expected);
+}
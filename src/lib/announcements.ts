@@ -0,0 +1,116 @@
+import semver from "semver";
+import type { Announcement } from "../prisma/client.js";
+import type { UpdatesBodyType } from "../update.js";
+import { resolveAppName, type BuildChannel } from "./apps.js";
+
+export type ActiveAnnouncement = Pick<
+  Announcement,
+  | "id"
+  | "message"
+  | "link"
+  | "priority"
+  | "starts_at"
+  | "ends_at"
+  | "app_name"
+  | "app_version_range"
+  | "build_channels"
+  | "os_platforms"
+  | "os_archs"
+  | "os_release_range"
+>;
+
+/** Announcements which are enabled and not yet ended, sorted by priority (highest first) */
+let activeAnnouncements: ActiveAnnouncement[] = [];
+
+export function setActiveAnnouncements(
+  announcements: ActiveAnnouncement[]
+): void {
+  activeAnnouncements = [...announcements].sort(
+    (a, b) => b.priority - a.priority || b.id - a.id
+  );
+}
+
+/**
+ * Split a comma separated list, as stored in the database
+ */
+export function splitTargetList(value: string | null): string[] | null {
+  if (!value) return null;
+
+  const values = value
+    .split(",")
+    .map((v) => v.trim().toLowerCase())
+    .filter((v) => !!v);
+  return values.length > 0 ? values : null;
+}
+
+function matchesVersionRange(version: string, range: string | null): boolean {
+  if (!range) return true;
+
+  // Versions such as os releases are not always valid semver, so coerce them
+  const coerced = semver.coerce(version, { loose: true });
+  if (!coerced) return false;
+
+  return semver.satisfies(coerced, range, { loose: true });
+}
+
+function matchesList(value: string, list: string | null): boolean {
+  const values = splitTargetList(list);
+  return !values || values.includes(value.toLowerCase());
+}
+
+export function matchesAnnouncement(
+  announcement: ActiveAnnouncement,
+  info: Pick<UpdatesBodyType, "app" | "os">,
+  buildChannel: BuildChannel | null,
+  now: Date = new Date()
+): boolean {
+  if (announcement.starts_at > now) return false;
+  if (announcement.ends_at && announcement.ends_at <= now) return false;
+
+  if (
+    announcement.app_name &&
+    announcement.app_name !== resolveAppName(info.app.name)
+  ) {
+    return false;
+  }
+  if (!matchesVersionRange(info.app.version, announcement.app_version_range)) {
+    return false;
+  }
+  if (announcement.build_channels) {
+    // Builds which couldn't be classified only match announcements for all channels
+    if (!buildChannel) return false;
+    if (!matchesList(buildChannel, announcement.build_channels)) return false;
+  }
+
+  if (!matchesList(info.os.platform, announcement.os_platforms)) return false;
+  if (!matchesList(info.os.arch, announcement.os_archs)) return false;
+  if (!matchesVersionRange(info.os.release, announcement.os_release_range)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Find the highest priority announcement which matches the installation
+ */
+export function findAnnouncement(
+  info: Pick<UpdatesBodyType, "app" | "os">,
+  buildChannel: BuildChannel | null
+): ActiveAnnouncement | null {
+  const now = new Date();
+  return (
+    activeAnnouncements.find((announcement) =>
+      matchesAnnouncement(announcement, info, buildChannel, now)
+    ) ?? null
+  );
+}
+
+/**
+ * Format an announcement for the `message2` field, which is plain text
+ */
+export function formatAnnouncement(announcement: ActiveAnnouncement): string {
+  return announcement.link
+    ? `${announcement.message} ${announcement.link}`
+    : announcement.message;
+}
@@ -0,0 +1,155 @@
+import type { CompatibilityEntry } from "./platforms.js";
+import type { SupportPolicy } from "./support-policy.js";
+
+/**
+ * Registry of the applications which can check for updates through this api.
+ * Each entry describes where releases are published, how its build strings look and how update advice is worded.
+ */
+
+export interface AppDownloadLinks {
+  /** Link to download the latest stable release */
+  stable: string;
+  /** Link to download the latest beta build */
+  beta: string;
+  /** Link shown to users running an experimental build */
+  experimental: string;
+  /** Link shown to users running a version which is no longer supported */
+  obsolete: string;
+  /** Link shown to users running a version older than `minimumMajor` */
+  ancient: string;
+}
+
+export interface AppDefinition {
+  /** Name of the application, as reported in the `app.name` field */
+  name: string;
+  /** Other names the application reports itself as, which are treated as `name` */
+  aliases?: string[];
+  /** Human-readable name, used in messages */
+  displayName: string;
+
+  /** The GitHub repository the releases are published to */
+  github: {
+    owner: string;
+    repo: string;
+  };
+
+  /**
+   * Regex that a build string must match to be understood.
+   * It must capture, in order: major, minor, patch, build number, build kind and commit hash
+   */
+  buildFormat: RegExp;
+
+  links: AppDownloadLinks;
+  /**
+   * Download target names, keyed by `<os.platform>-<os.arch>`. Added to download links as `target=<name>` when known.
+   * Only add targets which the download service has been confirmed to accept
+   */
+  downloadTargets: Record<string, string>;
+
+  /**
+   * Os requirements of each version, sorted by `fromVersion` (oldest first).
+   * Each entry must be taken from the published system requirements of the app, with a link to them
+   */
+  compatibility: CompatibilityEntry[];
+
+  /** Builds with a major version lower than this are considered ancient, and not worth interpreting */
+  minimumMajor: number;
+  /** Which minor branches are supported. Users of other branches are told to update */
+  supportPolicy: SupportPolicy;
+}
+
+/**
+ * Build format shared by the Bitfocus build pipelines, eg: 3.3.1+7001-stable-ee7c3daa
+ * Accept optional leading `v`, require core semver, a `+` build number, then `-<kind>-<hash>`
+ */
+const BITFOCUS_BUILD_FORMAT =
+  /^v?(\d+)\.(\d+)\.(\d+)\+(\d+)-(.+)-([0-9a-fA-F]{7,40})$/;
+
+const KNOWN_APPS: ReadonlyMap<string, AppDefinition> = new Map(
+  (
+    [
+      {
+        name: "companion",
+        displayName: "Companion",
+        github: { owner: "bitfocus", repo: "companion" },
+        buildFormat: BITFOCUS_BUILD_FORMAT,
+        links: {
+          stable: "https://user.bitfocus.io/download?companion_inapp_stable",
+          beta: "https://user.bitfocus.io/download?companion_inapp_beta",
+          experimental: "https://companion.free?companion_inapp_beyond",
+          obsolete:
+            "https://user.bitfocus.io/download?companion_inapp_obsolete",
+          ancient: "https://user.bitfocus.io/download?companion_inapp_ancient",
+        },
+        // TODO: fill in once the target names accepted by the download service are confirmed. Until then the links are left generic
+        downloadTargets: {},
+        // TODO: fill in from the published system requirements. Until then no installation is told its os is unsupported
+        compatibility: [],
+        // Very old 2.x versions, interpreting stable vs beta is different and not worth supporting
+        minimumMajor: 3,
+        // The current and previous minor branches are supported
+        supportPolicy: {
+          supportedMinorBranches: 2,
+        },
+      },
+      {
+        name: "satellite",
+        // Satellite reports itself with its package name
+        aliases: ["companion-satellite"],
+        displayName: "Companion Satellite",
+        github: { owner: "bitfocus", repo: "companion-satellite" },
+        buildFormat: BITFOCUS_BUILD_FORMAT,
+        links: {
+          stable: "https://user.bitfocus.io/download?satellite_inapp_stable",
+          beta: "https://user.bitfocus.io/download?satellite_inapp_beta",
+          experimental: "https://companion.free?satellite_inapp_beyond",
+          obsolete:
+            "https://user.bitfocus.io/download?satellite_inapp_obsolete",
+          ancient: "https://user.bitfocus.io/download?satellite_inapp_ancient",
+        },
+        // TODO: as for companion, fill in once confirmed
+        downloadTargets: {},
+        compatibility: [],
+        // Older versions did not report their build in a parseable format
+        minimumMajor: 2,
+        // Satellite is expected to always be run on the latest release
+        supportPolicy: {
+          supportedMinorBranches: 1,
+        },
+      },
+    ] satisfies AppDefinition[]
+  ).flatMap((def) =>
+    [def.name, ...(def.aliases ?? [])].map((name) => [name, def] as const)
+  )
+);
+
+export const BUILD_CHANNELS = ["stable", "beta", "experimental"] as const;
+export type BuildChannel = (typeof BUILD_CHANNELS)[number];
+
+/**
+ * Classify the build kind from a build string (eg `stable`, `beta`, `main`, `my-feature`) into a channel
+ */
+export function getBuildChannel(buildKind: string): BuildChannel {
+  if (buildKind === "stable" || buildKind.startsWith("stable-")) {
+    return "stable";
+  } else if (buildKind === "beta" || buildKind === "main") {
+    return "beta";
+  } else {
+    return "experimental";
+  }
+}
+
+export function getAppDefinition(name: string): AppDefinition | undefined {
+  return KNOWN_APPS.get(name);
+}
+
+/**
+ * Get the name an application is recorded as, so that installations reporting an alias are counted together
+ */
+export function resolveAppName(name: string): string {
+  return KNOWN_APPS.get(name)?.name ?? name;
+}
+
+export function getAllAppDefinitions(): AppDefinition[] {
+  return Array.from(new Set(KNOWN_APPS.values()));
+}
@@ -0,0 +1,73 @@
+import semver, { type SemVer } from "semver";
+import {
+  getBuildChannel,
+  type AppDefinition,
+  type BuildChannel,
+} from "./apps.js";
+
+/**
+ * The components of a build string, eg `4.2.0+7001-beta-ee7c3daa`
+ */
+export interface BuildInfo {
+  version: SemVer;
+  buildNumber: number;
+  /** The build kind, which is the branch for beta and experimental builds, eg `stable`, `beta`, `main` or `my-feature` */
+  branch: string;
+  channel: BuildChannel;
+  commitHash: string;
+}
+
+/**
+ * Parse a build string, according to the build format of the app
+ * @returns null if the build doesn't match the build format of the app
+ */
+export function parseBuildInfo(
+  app: AppDefinition,
+  build: string
+): BuildInfo | null {
+  const match = build.match(app.buildFormat);
+  if (!match) return null;
+
+  const version = semver.parse(`${match[1]}.${match[2]}.${match[3]}`);
+  if (!version) return null;
+
+  return {
+    version,
+    buildNumber: Number(match[4]),
+    branch: match[5],
+    channel: getBuildChannel(match[5]),
+    commitHash: match[6].toLowerCase(),
+  };
+}
+
+/**
+ * The database columns holding the parsed build, for the `User` and `CompanionFeatures` tables
+ */
+export interface BuildInfoColumns {
+  build_version: string | null;
+  build_number: number | null;
+  build_branch: string | null;
+  build_commit: string | null;
+}
+
+export function getBuildInfoColumns(
+  buildInfo: BuildInfo | null
+): BuildInfoColumns {
+  if (!buildInfo) {
+    return {
+      build_version: null,
+      build_number: null,
+      build_branch: null,
+      build_commit: null,
+    };
+  }
+
+  return {
+    build_version: buildInfo.version.version.slice(0, 16), // Trim to fit DB
+    // Ignore build numbers which don't fit the column, rather than failing to record the installation
+    build_number:
+      buildInfo.buildNumber <= 0x7fffffff ? buildInfo.buildNumber : null,
+    build_branch: buildInfo.branch.slice(0, 64), // Trim to fit DB
+    build_commit: buildInfo.commitHash,
+  };
+}
@@ -0,0 +1,79 @@
+import semver, { type SemVer } from "semver";
+import type { StableRelease } from "./releases.js";
+
+const SUMMARY_MAX_ITEMS = 5;
+const SUMMARY_MAX_LENGTH = 500;
+
+/**
+ * Get the releases newer than `from`, up to and including `to`, sorted by version (oldest first)
+ */
+export function getChangelogReleases(
+  stableReleases: StableRelease[],
+  from: SemVer | string,
+  to: SemVer | string
+): StableRelease[] {
+  return stableReleases
+    .filter(
+      (release) =>
+        semver.gt(release.version, from, { loose: true }) &&
+        semver.lte(release.version, to, { loose: true })
+    )
+    .sort((a, b) => semver.compare(a.version, b.version));
+}
+
+/**
+ * Combine the notes of multiple releases into a single markdown document
+ */
+export function combineReleaseNotes(releases: StableRelease[]): string {
+  // Newest first, as is usual for changelogs
+  return [...releases]
+    .reverse()
+    .map((release) => {
+      const heading = release.title || `v${release.version.version}`;
+      return `## ${heading}\n\n${release.body?.trim() || "No release notes"}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Produce a short plain text summary of the changes in some releases, from the bullet points of their notes
+ */
+export function summarizeReleaseNotes(
+  releases: StableRelease[]
+): string | undefined {
+  const items: string[] = [];
+
+  // Newest first, so that the most recent changes are the ones shown
+  for (const release of [...releases].reverse()) {
+    for (const line of (release.body ?? "").split(/\r?\n/)) {
+      const bullet = line.match(/^\s*[-*]\s+(.+)$/);
+      if (!bullet) continue;
+
+      const text = stripMarkdown(bullet[1]);
+      if (text && !items.includes(text)) items.push(text);
+      if (items.length >= SUMMARY_MAX_ITEMS) break;
+    }
+    if (items.length >= SUMMARY_MAX_ITEMS) break;
+  }
+
+  if (items.length === 0) return undefined;
+
+  const summary = items.map((item) => `• ${item}`).join("\n");
+  return summary.length > SUMMARY_MAX_LENGTH
+    ? `${summary.slice(0, SUMMARY_MAX_LENGTH - 1)}…`
+    : summary;
+}
+
+function stripMarkdown(text: string): string {
+  return (
+    text
+      // links: [text](url) => text
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      // emphasis and inline code
+      .replace(/[*_`]+/g, "")
+      // trailing references such as (#1234) or by @user
+      .replace(/\s*\(#\d+\)/g, "")
+      .replace(/\s+by @[\w-]+.*$/i, "")
+      .trim()
+  );
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { PrismaClient } from "../prisma/client.js";
+import { eraseInstallationData } from "./erase-installation.js";
+
+/**
+ * A stand in for the tables holding installation data, where each matches `rowCount` rows of the installation
+ */
+function createFakePrisma(rowCount: number) {
+  const receipts: unknown[] = [];
+  const model = {
+    deleteMany: async () => ({ count: rowCount }),
+    updateMany: async () => ({ count: rowCount }),
+  };
+
+  const tx = {
+    user: model,
+    userVersionTransition: model,
+    companionFeatures: model,
+    installationUpdateAdvice: model,
+    moduleUserLastSeen: model,
+    surfaceUserLastSeen: model,
+    moduleDailyUsage: model,
+    surfaceDailyUsage: model,
+    $executeRaw: async () => rowCount,
+    erasureReceipt: {
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        receipts.push(data);
+        return data;
+      },
+    },
+  };
+
+  const prisma = {
+    $transaction: async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx),
+  };
+
+  return { prisma: prisma as unknown as PrismaClient, receipts };
+}
+
+describe("erase installation", () => {
+  it("doesn't report an erasure when there is no data for the installation", async () => {
+    const { prisma, receipts } = createFakePrisma(0);
+
+    assert.equal(await eraseInstallationData(prisma, "installation-1"), null);
+    assert.equal(receipts.length, 0);
+  });
+
+  it("stores a receipt without the installation id", async () => {
+    const { prisma, receipts } = createFakePrisma(2);
+
+    const receipt = await eraseInstallationData(prisma, "installation-1");
+
+    assert.ok(receipt);
+    assert.equal(receipt.deleted.User, 2);
+    assert.equal(receipt.anonymized.SurfaceDeviceDailyUsage, 2);
+    assert.equal(receipts.length, 1);
+    assert.ok(!JSON.stringify(receipts[0]).includes("installation-1"));
+  });
+});
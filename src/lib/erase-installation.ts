@@ -0,0 +1,119 @@
+import type { PrismaClient } from "../prisma/client.js";
+import crypto from "crypto";
+import { z } from "zod";
+
+// Erasing an installation with a long history touches many rows
+const ERASE_TRANSACTION_TIMEOUT_MS = 30 * 1000;
+
+export interface ErasureReceipt {
+  receiptId: string;
+  erasedAt: string;
+  /** Rows deleted, per table */
+  deleted: Record<string, number>;
+  /** Rows no longer linked to the installation, per table */
+  anonymized: Record<string, number>;
+}
+
+/**
+ * Erase the data of an installation.
+ * The rows describing the installation are deleted. The daily usage rows are moved to a random id instead,
+ * so that they can't be linked back to the installation but the past usage stats don't change.
+ * This is pseudonymisation rather than anonymisation: the rows of the installation share the new id, so they remain linked to each other.
+ * That is needed for the distinct installation counts of periods longer than a day, which would otherwise count every day separately.
+ * A receipt is stored for each erasure, without the installation id
+ * @returns The receipt, or null when there was no data for the installation
+ */
+export async function eraseInstallationData(
+  prisma: PrismaClient,
+  userId: string
+): Promise<ErasureReceipt | null> {
+  const anonymousId = `erased-${crypto.randomBytes(16).toString("hex")}`;
+  const serialSalt = crypto.randomBytes(16).toString("hex");
+
+  return prisma.$transaction(
+    async (tx) => {
+      const where = { user_id: userId };
+      const deleted = {
+        User: (await tx.user.deleteMany({ where })).count,
+        UserVersionTransition: (
+          await tx.userVersionTransition.deleteMany({ where })
+        ).count,
+        CompanionFeatures: (await tx.companionFeatures.deleteMany({ where }))
+          .count,
+        InstallationUpdateAdvice: (
+          await tx.installationUpdateAdvice.deleteMany({ where })
+        ).count,
+        ModuleUserLastSeen: (await tx.moduleUserLastSeen.deleteMany({ where }))
+          .count,
+        SurfaceUserLastSeen: (
+          await tx.surfaceUserLastSeen.deleteMany({ where })
+        ).count,
+      };
+
+      const data = { user_id: anonymousId };
+      const anonymized = {
+        ModuleDailyUsage: (
+          await tx.moduleDailyUsage.updateMany({ where, data })
+        ).count,
+        SurfaceDailyUsage: (
+          await tx.surfaceDailyUsage.updateMany({ where, data })
+        ).count,
+        // The serials identify the devices of the installation, so are replaced with a hash using a salt which is then discarded.
+        // This keeps the devices of the installation distinct, as each must be unique per day
+        SurfaceDeviceDailyUsage: await tx.$executeRaw`
+          UPDATE SurfaceDeviceDailyUsage
+          SET user_id = ${anonymousId}, surface_serial = SHA2(CONCAT(${serialSalt}, surface_serial), 256)
+          WHERE user_id = ${userId}
+        `,
+      };
+
+      const total = [
+        ...Object.values(deleted),
+        ...Object.values(anonymized),
+      ].reduce((sum, count) => sum + count, 0);
+      if (total === 0) return null;
+
+      const receipt = await tx.erasureReceipt.create({
+        data: {
+          receipt_id: crypto.randomUUID(),
+          erased_at: new Date(),
+          deleted,
+          anonymized,
+        },
+      });
+
+      return {
+        receiptId: receipt.receipt_id,
+        erasedAt: receipt.erased_at.toISOString(),
+        deleted,
+        anonymized,
+      };
+    },
+    {
+      timeout: ERASE_TRANSACTION_TIMEOUT_MS,
+    }
+  );
+}
+
+/** Row counts per table, as stored in the receipts */
+const TableRowCounts = z.record(z.string(), z.number().int());
+
+/**
+ * Find the receipt of an earlier erasure
+ */
+export async function findErasureReceipt(
+  prisma: PrismaClient,
+  receiptId: string
+): Promise<ErasureReceipt | null> {
+  const receipt = await prisma.erasureReceipt.findUnique({
+    where: { receipt_id: receiptId },
+  });
+  if (!receipt) return null;
+
+  return {
+    receiptId: receipt.receipt_id,
+    erasedAt: receipt.erased_at.toISOString(),
+    deleted: TableRowCounts.parse(receipt.deleted),
+    anonymized: TableRowCounts.parse(receipt.anonymized),
+  };
+}
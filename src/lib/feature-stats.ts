@@ -0,0 +1,277 @@
+import {
+  Prisma,
+  type CompanionFeatures,
+  type PrismaClient,
+} from "../prisma/client.js";
+
+type FeatureField<T> = {
+  [K in keyof CompanionFeatures]: CompanionFeatures[K] extends T ? K : never;
+}[keyof CompanionFeatures];
+
+export const BOOLEAN_FEATURES = [
+  "isBoundToLoopback",
+  "hasAdminPassword",
+  "hasPincodeLockout",
+  "cloudEnabled",
+  "httpsEnabled",
+  "httpEnabled",
+  "httpDeprecatedEnabled",
+  "tcpEnabled",
+  "tcpDeprecatedEnabled",
+  "udpEnabled",
+  "udpDeprecatedEnabled",
+  "oscEnabled",
+  "oscDeprecatedEnabled",
+  "rossTalkEnabled",
+  "emberPlusEnabled",
+  "artnetEnabled",
+  "satelliteSubscriptionsEnabled",
+  "mdnsAnnouncementsEnabled",
+] as const satisfies readonly FeatureField<boolean | null>[];
+
+export const ENUM_FEATURES = [
+  "buttonDecoration",
+  "buttonStatusIcons",
+] as const satisfies readonly FeatureField<string | null>[];
+
+export const COUNT_FEATURES = [
+  "connectionCount",
+  "pageCount",
+  "buttonCount",
+  "triggerCount",
+  "surfaceGroupCount",
+  "customVariableCount",
+  "expressionVariableCount",
+  "connectedSatellites",
+  "imageLibraryCount",
+  "enabledBackupRuleCount",
+] as const satisfies readonly FeatureField<number | null>[];
+
+export const FEATURE_GROUP_FIELDS = ["app_version", "os_platform"] as const;
+export type FeatureGroupField = (typeof FEATURE_GROUP_FIELDS)[number];
+
+const REPORTED_PERCENTILES = [25, 50, 75, 90, 99];
+
+/** Value used for NULLs, which are fields not reported by older clients */
+export const UNKNOWN_VALUE = "unknown";
+
+export interface BooleanFeatureStats {
+  enabled: number;
+  disabled: number;
+  unknown: number;
+  /** Percentage of the installations reporting the flag which have it enabled */
+  percentage: number | null;
+}
+
+export interface CountFeatureStats {
+  /** Installations not reporting the count */
+  unknown: number;
+  mean: number | null;
+  /** Keyed by percentile, eg `p50` */
+  percentiles: Record<string, number | null>;
+}
+
+export interface FeatureStatsGroup {
+  /** Values of the grouping fields, eg `{ os_platform: "linux" }` */
+  group: Partial<Record<FeatureGroupField, string>>;
+  installations: number;
+  flags: Record<string, BooleanFeatureStats>;
+  /** Number of installations with each value, including `unknown` */
+  distributions: Record<string, Record<string, number>>;
+  counts: Record<string, CountFeatureStats>;
+}
+
+type AggregateValue = bigint | number | Prisma.Decimal | string | null;
+
+/**
+ * Report the adoption of features by the installations seen since a time.
+ * Everything is aggregated by the database, only the number of installations with each count value is read to find the percentiles
+ * @param groupBy Fields to report the installations separately by
+ */
+export async function getFeatureStats(
+  prisma: PrismaClient,
+  since: Date,
+  groupBy: readonly FeatureGroupField[]
+): Promise<FeatureStatsGroup[]> {
+  // The field names are constants, so are safe to use as identifiers
+  const groupColumns = groupBy.map((field) => Prisma.raw(field));
+  const groupByClause = groupColumns.length
+    ? Prisma.sql`GROUP BY ${Prisma.join(groupColumns)}`
+    : Prisma.empty;
+
+  const totals = await prisma.$queryRaw<Record<string, AggregateValue>[]>`
+    SELECT ${Prisma.join([
+      ...groupColumns,
+      Prisma.sql`COUNT(*) AS installations`,
+      ...BOOLEAN_FEATURES.flatMap((field) => [
+        Prisma.raw(`SUM(${field} = 1) AS \`${field}_enabled\``),
+        Prisma.raw(`SUM(${field} = 0) AS \`${field}_disabled\``),
+        Prisma.raw(`SUM(${field} IS NULL) AS \`${field}_unknown\``),
+      ]),
+      ...COUNT_FEATURES.flatMap((field) => [
+        Prisma.raw(`AVG(${field}) AS \`${field}_mean\``),
+        Prisma.raw(`SUM(${field} IS NULL) AS \`${field}_unknown\``),
+      ]),
+    ])}
+    FROM CompanionFeatures
+    WHERE updatedAt >= ${since}
+    ${groupByClause}
+  `;
+
+  const groups = new Map<string, FeatureStatsGroup>();
+  for (const row of totals) {
+    // Without any grouping, a row is returned even when there are no installations
+    if (!Number(row.installations ?? 0)) continue;
+
+    const group = getGroupValues(row, groupBy);
+
+    const flags: Record<string, BooleanFeatureStats> = {};
+    for (const field of BOOLEAN_FEATURES) {
+      const enabled = Number(row[`${field}_enabled`] ?? 0);
+      const disabled = Number(row[`${field}_disabled`] ?? 0);
+      flags[field] = {
+        enabled,
+        disabled,
+        unknown: Number(row[`${field}_unknown`] ?? 0),
+        percentage:
+          enabled + disabled ? (enabled / (enabled + disabled)) * 100 : null,
+      };
+    }
+
+    const counts: Record<string, CountFeatureStats> = {};
+    for (const field of COUNT_FEATURES) {
+      const mean = row[`${field}_mean`];
+      counts[field] = {
+        unknown: Number(row[`${field}_unknown`] ?? 0),
+        mean: mean === null || mean === undefined ? null : Number(mean),
+        percentiles: {},
+      };
+    }
+
+    const distributions: Record<string, Record<string, number>> = {};
+    for (const field of ENUM_FEATURES) distributions[field] = {};
+
+    groups.set(JSON.stringify(group), {
+      group,
+      installations: Number(row.installations ?? 0),
+      flags,
+      distributions,
+      counts,
+    });
+  }
+
+  for (const field of ENUM_FEATURES) {
+    for (const [key, values] of await getValueCounts(
+      prisma,
+      since,
+      groupBy,
+      field
+    )) {
+      const distribution = groups.get(key)?.distributions[field];
+      if (!distribution) continue;
+
+      for (const { value, installations } of values) {
+        const name = value === null ? UNKNOWN_VALUE : String(value);
+        distribution[name] = (distribution[name] ?? 0) + installations;
+      }
+    }
+  }
+
+  for (const field of COUNT_FEATURES) {
+    for (const [key, values] of await getValueCounts(
+      prisma,
+      since,
+      groupBy,
+      field
+    )) {
+      const stats = groups.get(key)?.counts[field];
+      if (!stats) continue;
+
+      const histogram = values
+        .filter((v) => v.value !== null)
+        .map((v) => ({
+          value: Number(v.value),
+          installations: v.installations,
+        }))
+        .sort((a, b) => a.value - b.value);
+      for (const p of REPORTED_PERCENTILES) {
+        stats.percentiles[`p${p}`] = getPercentile(histogram, p);
+      }
+    }
+  }
+
+  return Array.from(groups.values()).sort(
+    (a, b) => b.installations - a.installations
+  );
+}
+
+function getGroupValues(
+  row: Record<string, AggregateValue>,
+  groupBy: readonly FeatureGroupField[]
+): Partial<Record<FeatureGroupField, string>> {
+  const group: Partial<Record<FeatureGroupField, string>> = {};
+  for (const field of groupBy) {
+    group[field] = (row[field] as string | null) || UNKNOWN_VALUE;
+  }
+  return group;
+}
+
+/**
+ * Count the installations with each value of a field
+ * @returns The values of each group, keyed by the JSON of the group values
+ */
+async function getValueCounts(
+  prisma: PrismaClient,
+  since: Date,
+  groupBy: readonly FeatureGroupField[],
+  field: string
+): Promise<
+  Map<string, Array<{ value: AggregateValue; installations: number }>>
+> {
+  const columns = [...groupBy, field].map((column) => Prisma.raw(column));
+
+  const rows = await prisma.$queryRaw<Record<string, AggregateValue>[]>`
+    SELECT ${Prisma.join(columns)}, COUNT(*) AS installations
+    FROM CompanionFeatures
+    WHERE updatedAt >= ${since}
+    GROUP BY ${Prisma.join(columns)}
+  `;
+
+  const result = new Map<
+    string,
+    Array<{ value: AggregateValue; installations: number }>
+  >();
+  for (const row of rows) {
+    const key = JSON.stringify(getGroupValues(row, groupBy));
+    let values = result.get(key);
+    if (!values) {
+      values = [];
+      result.set(key, values);
+    }
+    values.push({
+      value: row[field],
+      installations: Number(row.installations ?? 0),
+    });
+  }
+  return result;
+}
+
+/**
+ * Get a percentile from the number of installations with each value, using the nearest-rank method
+ * @param histogram Sorted by value, lowest first
+ */
+function getPercentile(
+  histogram: Array<{ value: number; installations: number }>,
+  percentile: number
+): number | null {
+  const total = histogram.reduce((sum, h) => sum + h.installations, 0);
+  if (total === 0) return null;
+
+  const rank = Math.max(Math.ceil((percentile / 100) * total), 1);
+  let seen = 0;
+  for (const h of histogram) {
+    seen += h.installations;
+    if (seen >= rank) return h.value;
+  }
+  return histogram[histogram.length - 1].value;
+}
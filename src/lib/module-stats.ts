@@ -0,0 +1,179 @@
+import { Prisma, type PrismaClient } from "../prisma/client.js";
+import type { ModuleType } from "../prisma/enums.js";
+import {
+  formatStatsDay,
+  getStatsPeriodSql,
+  type StatsGrouping,
+  type StatsRange,
+} from "./stats.js";
+import { splitUsageRange, type SplitUsageRange } from "./usage-rollup.js";
+
+export interface ModuleUsagePeriod {
+  /** First day of the period, as `yyyy-mm-dd` */
+  period: string;
+  /** Distinct installations which used the module during the period */
+  installations: number;
+  /** Sum over the installations of the most instances each had at once during the period */
+  instances: number;
+}
+
+export interface ModuleUsageSeries {
+  moduleType: ModuleType;
+  moduleName: string;
+  /** The module version, or null for all versions combined */
+  moduleVersion: string | null;
+  periods: ModuleUsagePeriod[];
+}
+
+export interface ModuleUsageFilter {
+  moduleType?: ModuleType;
+  /** Report the versions of this module. When not set, all modules are reported with their versions combined */
+  moduleName?: string;
+}
+
+interface ModuleUsageRow {
+  module_id: number;
+  period: string;
+  installations: number;
+  instances: number;
+}
+
+/**
+ * Report the usage of modules over a date range, per period.
+ * Periods whose daily rows have been pruned are read from the rollups
+ */
+export async function getModuleUsage(
+  prisma: PrismaClient,
+  range: StatsRange,
+  grouping: StatsGrouping,
+  filter: ModuleUsageFilter
+): Promise<ModuleUsageSeries[]> {
+  const split = splitUsageRange(range, grouping);
+
+  const rows: ModuleUsageRow[] = [];
+  if (split.rollup) {
+    rows.push(...(await getRolledUpModuleUsage(prisma, split.rollup, filter)));
+  }
+  if (split.daily) {
+    rows.push(
+      ...(await getDailyModuleUsage(prisma, split.daily, grouping, filter))
+    );
+  }
+  if (rows.length === 0) return [];
+
+  const modules = await prisma.knownModule.findMany({
+    where: { id: { in: Array.from(new Set(rows.map((r) => r.module_id))) } },
+    select: {
+      id: true,
+      module_type: true,
+      module_name: true,
+      module_version: true,
+    },
+  });
+  const modulesById = new Map(modules.map((m) => [m.id, m]));
+
+  const series = new Map<number, ModuleUsageSeries>();
+  for (const row of rows) {
+    const module = modulesById.get(row.module_id);
+    if (!module) continue;
+
+    let entry = series.get(row.module_id);
+    if (!entry) {
+      entry = {
+        moduleType: module.module_type,
+        moduleName: module.module_name,
+        moduleVersion: module.module_version || null,
+        periods: [],
+      };
+      series.set(row.module_id, entry);
+    }
+
+    entry.periods.push({
+      period: row.period,
+      installations: row.installations,
+      instances: row.instances,
+    });
+  }
+
+  return Array.from(series.values()).sort(
+    (a, b) =>
+      a.moduleName.localeCompare(b.moduleName) ||
+      a.moduleType.localeCompare(b.moduleType) ||
+      (a.moduleVersion ?? "").localeCompare(b.moduleVersion ?? "")
+  );
+}
+
+async function getDailyModuleUsage(
+  prisma: PrismaClient,
+  range: StatsRange,
+  grouping: StatsGrouping,
+  filter: ModuleUsageFilter
+): Promise<ModuleUsageRow[]> {
+  const period = getStatsPeriodSql(grouping, "d.date");
+
+  const moduleConditions = [
+    filter.moduleName
+      ? Prisma.sql`m.module_name = ${filter.moduleName}`
+      : // The row with an empty version holds the counts of all the versions combined
+        Prisma.sql`m.module_version = ''`,
+  ];
+  if (filter.moduleType) {
+    moduleConditions.push(Prisma.sql`m.module_type = ${filter.moduleType}`);
+  }
+
+  // Each installation is counted once per period, with the most instances it had on any day
+  const rows = await prisma.$queryRaw<
+    Array<{
+      module_id: number;
+      period: string;
+      installations: bigint;
+      instances: Prisma.Decimal | number | null;
+    }>
+  >`
+    SELECT u.module_id, u.period, COUNT(*) AS installations, SUM(u.max_count) AS instances
+    FROM (
+      SELECT d.module_id, ${period} AS period, d.user_id, MAX(d.max_count) AS max_count
+      FROM ModuleDailyUsage d
+      JOIN KnownModule m ON m.id = d.module_id
+      WHERE d.date >= ${range.from} AND d.date <= ${range.to}
+        AND ${Prisma.join(moduleConditions, " AND ")}
+      GROUP BY d.module_id, period, d.user_id
+    ) u
+    GROUP BY u.module_id, u.period
+    ORDER BY u.module_id, u.period
+  `;
+
+  return rows.map((row) => ({
+    module_id: row.module_id,
+    period: row.period,
+    installations: Number(row.installations),
+    instances: Number(row.instances ?? 0),
+  }));
+}
+
+async function getRolledUpModuleUsage(
+  prisma: PrismaClient,
+  rollup: NonNullable<SplitUsageRange["rollup"]>,
+  filter: ModuleUsageFilter
+): Promise<ModuleUsageRow[]> {
+  const rows = await prisma.moduleUsageRollup.findMany({
+    where: {
+      period: rollup.period,
+      period_start: { gte: rollup.from, lte: rollup.to },
+      module: {
+        module_type: filter.moduleType,
+        ...(filter.moduleName
+          ? { module_name: filter.moduleName }
+          : { module_version: "" }),
+      },
+    },
+    orderBy: [{ module_id: "asc" }, { period_start: "asc" }],
+  });
+
+  return rows.map((row) => ({
+    module_id: row.module_id,
+    period: formatStatsDay(row.period_start),
+    installations: row.installations,
+    instances: row.instances_sum,
+  }));
+}
@@ -0,0 +1,103 @@
+import semver, { type SemVer } from "semver";
+import type { UpdatesBodyType } from "../update.js";
+import type { AppDefinition, AppDownloadLinks } from "./apps.js";
+
+export interface PlatformRequirement {
+  /**
+   * Minimum os release, as reported by the app (eg the darwin kernel version on macOS).
+   * Windows 11 reports itself as 10.0, so must be distinguished by build number (eg `10.0.22000`)
+   */
+  minRelease: string;
+  /** Human-readable name of the minimum os release, used in messages */
+  name: string;
+}
+
+/**
+ * The os requirements of all versions from `fromVersion`, until the next entry
+ */
+export interface CompatibilityEntry {
+  fromVersion: string;
+  /** Requirements keyed by os platform. Platforms without an entry have no known requirement */
+  platforms: Partial<Record<string, PlatformRequirement>>;
+}
+
+/**
+ * Get the os requirement for a version of an app on a platform
+ */
+export function getPlatformRequirement(
+  app: AppDefinition,
+  version: SemVer,
+  platform: string
+): PlatformRequirement | undefined {
+  let requirement: PlatformRequirement | undefined;
+  for (const entry of app.compatibility) {
+    if (semver.lt(version, entry.fromVersion, { loose: true })) break;
+    requirement = entry.platforms[platform.toLowerCase()];
+  }
+  return requirement;
+}
+
+/**
+ * Check whether a version of an app supports the os of an installation.
+ * When the os release can't be interpreted, it is assumed to be supported
+ */
+export function isVersionSupportedOnOs(
+  app: AppDefinition,
+  version: SemVer,
+  os: UpdatesBodyType["os"]
+): boolean {
+  const requirement = getPlatformRequirement(app, version, os.platform);
+  if (!requirement) return true;
+
+  const osRelease = semver.coerce(os.release, { loose: true });
+  if (!osRelease) return true;
+
+  return semver.gte(osRelease, requirement.minRelease, { loose: true });
+}
+
+/**
+ * Get a download link, pointing at the build for the platform and architecture of the installation when known
+ */
+export function getDownloadLink(
+  app: AppDefinition,
+  kind: keyof AppDownloadLinks,
+  os: UpdatesBodyType["os"]
+): string {
+  const link = app.links[kind];
+
+  const target = app.downloadTargets[`${os.platform}-${os.arch}`.toLowerCase()];
+  if (!target || kind === "experimental") return link;
+
+  // Append manually, as URLSearchParams would rewrite the existing valueless key
+  return `${link}${link.includes("?") ? "&" : "?"}target=${encodeURIComponent(
+    target
+  )}`;
+}
+
+/**
+ * Group os releases into the families users would recognise, eg `Windows 11` or `macOS 14`.
+ * Linux is grouped by kernel version, as distributions can't be told apart from the release
+ */
+export function getOsReleaseFamily(platform: string, release: string): string {
+  const version = semver.coerce(release, { loose: true });
+  if (!version) return "unknown";
+
+  switch (platform.toLowerCase()) {
+    case "win32":
+      if (version.major === 10) {
+        // Windows 11 still reports itself as 10.0, but with a higher build number
+        return version.patch >= 22000 ? "Windows 11" : "Windows 10";
+      }
+      return `Windows ${version.major}.${version.minor}`;
+    case "darwin":
+      // The darwin kernel version is reported, which maps to a macOS version
+      if (version.major >= 25) return `macOS ${version.major + 1}`;
+      if (version.major >= 20) return `macOS ${version.major - 9}`;
+      if (version.major >= 5) return `macOS 10.${version.major - 4}`;
+      return `Darwin ${version.major}`;
+    case "linux":
+      return `Linux ${version.major}.${version.minor}`;
+    default:
+      return `${platform} ${version.major}`;
+  }
+}
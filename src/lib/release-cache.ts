@@ -0,0 +1,136 @@
+import semver from "semver";
+import { z } from "zod";
+import type { PrismaClient } from "../prisma/client.js";
+import type { ReleaseSet, StableRelease } from "./releases.js";
+
+/**
+ * Format of a release set, as stored in the database
+ */
+const CachedReleaseSet = z.object({
+  stableReleases: z.array(
+    z.object({
+      version: z.string(),
+      publishedAt: z.string(),
+      title: z.string().nullable(),
+      body: z.string().nullable(),
+    })
+  ),
+  latestBetas: z.record(
+    z.string(),
+    z.object({
+      version: z.string(),
+      buildNumber: z.number(),
+    })
+  ),
+});
+type CachedReleaseSetType = z.infer<typeof CachedReleaseSet>;
+
+export interface CachedReleases {
+  releaseSet: ReleaseSet;
+  fetchedAt: Date;
+}
+
+/**
+ * Load the last known releases of every app.
+ * Entries which can't be interpreted are skipped, they will be replaced on the next successful fetch
+ */
+export async function loadCachedReleases(
+  prisma: PrismaClient
+): Promise<Map<string, CachedReleases>> {
+  const rows = await prisma.releaseCache.findMany();
+
+  const cached = new Map<string, CachedReleases>();
+  for (const row of rows) {
+    const parsed = CachedReleaseSet.safeParse(row.data);
+    if (!parsed.success) {
+      console.warn("Ignoring invalid cached %s releases", row.app_name);
+      continue;
+    }
+
+    const releaseSet = deserializeReleaseSet(parsed.data);
+    if (releaseSet.stableReleases.length === 0) continue;
+
+    cached.set(row.app_name, {
+      releaseSet,
+      fetchedAt: row.fetched_at,
+    });
+  }
+  return cached;
+}
+
+/**
+ * Store the releases of an app, replacing the previously stored releases
+ */
+export async function saveCachedReleases(
+  prisma: PrismaClient,
+  appName: string,
+  cached: CachedReleases
+): Promise<void> {
+  const data = serializeReleaseSet(cached.releaseSet);
+
+  await prisma.releaseCache.upsert({
+    where: { app_name: appName },
+    update: {
+      data,
+      fetched_at: cached.fetchedAt,
+    },
+    create: {
+      app_name: appName,
+      data,
+      fetched_at: cached.fetchedAt,
+    },
+  });
+}
+
+function serializeReleaseSet(releaseSet: ReleaseSet): CachedReleaseSetType {
+  return {
+    stableReleases: releaseSet.stableReleases.map((release) => ({
+      version: release.version.version,
+      publishedAt: release.publishedAt.toISOString(),
+      title: release.title,
+      body: release.body,
+    })),
+    latestBetas: Object.fromEntries(
+      Object.entries(releaseSet.latestBetas).map(([branch, beta]) => [
+        branch,
+        {
+          version: beta.version.version,
+          buildNumber: beta.buildNumber,
+        },
+      ])
+    ),
+  };
+}
+
+function deserializeReleaseSet(data: CachedReleaseSetType): ReleaseSet {
+  const stableReleases: StableRelease[] = [];
+  for (const release of data.stableReleases) {
+    const version = semver.parse(release.version);
+    const publishedAt = new Date(release.publishedAt);
+    if (!version || isNaN(publishedAt.getTime())) continue;
+
+    stableReleases.push({
+      version,
+      publishedAt,
+      title: release.title,
+      body: release.body,
+    });
+  }
+  stableReleases.sort((a, b) => semver.compare(b.version, a.version));
+
+  const latestBetas: ReleaseSet["latestBetas"] = {};
+  for (const [branch, beta] of Object.entries(data.latestBetas)) {
+    const version = semver.parse(beta.version);
+    if (!version) continue;
+
+    latestBetas[branch] = {
+      version,
+      buildNumber: beta.buildNumber,
+    };
+  }
+
+  return {
+    stableReleases,
+    latestBetas,
+  };
+}
@@ -0,0 +1,49 @@
+import { Octokit } from "octokit";
+import * as Sentry from "@sentry/node";
+import type { ReleaseProvider } from "./types.js";
+
+/**
+ * Fetch the releases from the GitHub repository of each app
+ */
+export function createGitHubReleaseProvider(
+  token: string | undefined
+): ReleaseProvider {
+  const octokit = new Octokit({ auth: token });
+
+  // Report who we are authenticated as, to help with diagnosing rate limit issues.
+  // This isn't required to succeed, as the releases are public
+  octokit.rest.users
+    .getAuthenticated()
+    .then(({ data: { login } }) => {
+      console.log("Authenticated to Github as: %s", login);
+    })
+    .catch((err) => {
+      console.error("Error authenticating to Github:", err);
+      Sentry.captureException(err, {});
+    });
+
+  return {
+    name: "github",
+
+    listReleases: async (app) => {
+      const { owner, repo } = app.github;
+
+      // All the releases are fetched, as the supported branches and changelogs need the full history
+      const releases = await octokit.paginate(octokit.rest.repos.listReleases, {
+        owner,
+        repo,
+        per_page: 100,
+      });
+
+      return releases.map((r) => ({
+        // Prefer tag_name, then name
+        tag: r.tag_name || r.name || "",
+        name: r.name || null,
+        body: r.body || null,
+        draft: r.draft,
+        prerelease: r.prerelease,
+        publishedAt: r.published_at,
+      }));
+    },
+  };
+}
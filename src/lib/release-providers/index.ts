@@ -0,0 +1,34 @@
+import { createGitHubReleaseProvider } from "./github.js";
+import { createManifestReleaseProvider } from "./manifest.js";
+import { createMemoryReleaseProvider } from "./memory.js";
+import type { ReleaseProvider } from "./types.js";
+
+export type { ProviderRelease, ReleaseProvider } from "./types.js";
+export type { MemoryReleaseProvider } from "./memory.js";
+export {
+  createGitHubReleaseProvider,
+  createManifestReleaseProvider,
+  createMemoryReleaseProvider,
+};
+
+/**
+ * Create the release provider selected by the `RELEASE_PROVIDER` environment variable
+ */
+export function createReleaseProvider(): ReleaseProvider {
+  const providerName = process.env.RELEASE_PROVIDER || "github";
+  switch (providerName) {
+    case "github":
+      return createGitHubReleaseProvider(process.env.GITHUB_TOKEN);
+    case "manifest": {
+      const manifestPath = process.env.RELEASE_MANIFEST_PATH;
+      if (!manifestPath) {
+        throw new Error(
+          "RELEASE_MANIFEST_PATH environment variable is required for the manifest release provider"
+        );
+      }
+      return createManifestReleaseProvider(manifestPath);
+    }
+    default:
+      throw new Error(`Unknown release provider: "${providerName}"`);
+  }
+}
@@ -0,0 +1,60 @@
+import fs from "fs/promises";
+import { z } from "zod";
+import YAML from "yaml";
+import type { ProviderRelease, ReleaseProvider } from "./types.js";
+
+/**
+ * Format of a release manifest file, eg:
+ * ```yaml
+ * apps:
+ *   companion:
+ *     - version: 4.2.1
+ *       publishedAt: 2025-10-01T12:00:00Z
+ *       title: Companion v4.2.1
+ *       notes: |
+ *         - Fix something
+ * ```
+ */
+const ReleaseManifest = z.object({
+  apps: z.record(
+    z.string(),
+    z.array(
+      z.object({
+        version: z.string(),
+        title: z.string().nullish(),
+        notes: z.string().nullish(),
+        prerelease: z.boolean().default(false),
+        draft: z.boolean().default(false),
+        publishedAt: z.coerce.date().nullish(),
+      })
+    )
+  ),
+});
+
+/**
+ * Read the releases from a local JSON or YAML manifest file.
+ * The file is read on every fetch, so changes are picked up without a restart
+ */
+export function createManifestReleaseProvider(path: string): ReleaseProvider {
+  return {
+    name: "manifest",
+
+    listReleases: async (app) => {
+      const raw = await fs.readFile(path, "utf8");
+
+      // YAML is a superset of JSON, so this handles both
+      const manifest = ReleaseManifest.parse(YAML.parse(raw));
+
+      return (manifest.apps[app.name] ?? []).map(
+        (r): ProviderRelease => ({
+          tag: r.version,
+          name: r.title ?? null,
+          body: r.notes ?? null,
+          draft: r.draft,
+          prerelease: r.prerelease,
+          publishedAt: r.publishedAt?.toISOString() ?? null,
+        })
+      );
+    },
+  };
+}
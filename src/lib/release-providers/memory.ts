@@ -0,0 +1,27 @@
+import type { ProviderRelease, ReleaseProvider } from "./types.js";
+
+export interface MemoryReleaseProvider extends ReleaseProvider {
+  /** Replace the releases of an app */
+  setReleases(appName: string, releases: ProviderRelease[]): void;
+}
+
+/**
+ * Serve releases held in memory, for tests. It can't be selected with `RELEASE_PROVIDER`, as it would start empty
+ */
+export function createMemoryReleaseProvider(
+  initialReleases?: Record<string, ProviderRelease[]>
+): MemoryReleaseProvider {
+  const releasesByApp = new Map<string, ProviderRelease[]>(
+    Object.entries(initialReleases ?? {})
+  );
+
+  return {
+    name: "memory",
+
+    setReleases: (appName, releases) => {
+      releasesByApp.set(appName, [...releases]);
+    },
+
+    listReleases: async (app) => releasesByApp.get(app.name) ?? [],
+  };
+}
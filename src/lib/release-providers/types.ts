@@ -0,0 +1,32 @@
+import type { AppDefinition } from "../apps.js";
+
+/**
+ * A release, as reported by a release provider
+ */
+export interface ProviderRelease {
+  /** Tag of the release, eg `v4.2.1` */
+  tag: string;
+  /** Title of the release */
+  name: string | null;
+  /** Release notes, in markdown */
+  body: string | null;
+
+  draft: boolean;
+  prerelease: boolean;
+  /** ISO timestamp of when the release was published, or null if unpublished */
+  publishedAt: string | null;
+}
+
+/**
+ * A source of releases for the apps
+ */
+export interface ReleaseProvider {
+  /** Name of the provider, for logging */
+  readonly name: string;
+
+  /**
+   * List the releases of an app, in any order.
+   * This should be the whole history, as the supported branches are decided from it
+   */
+  listReleases(app: AppDefinition): Promise<ProviderRelease[]>;
+}
@@ -1,131 +1,462 @@
-import { Octokit } from "octokit";
 import semver, { SemVer } from "semver";
 import * as Sentry from "@sentry/node";
+import { z } from "zod";
+import {
+  getAllAppDefinitions,
+  getAppDefinition,
+  type AppDefinition,
+} from "./apps.js";
+import { findYankedRelease } from "./yanked-releases.js";
+import { parseBuildInfo } from "./build-info.js";
+import type { ReleaseProvider } from "./release-providers/index.js";
+import { loadCachedReleases, saveCachedReleases } from "./release-cache.js";
+import type { PrismaClient } from "../prisma/client.js";
 
-const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
+/**
+ * The release state of an app, as fetched from the release provider
+ */
+export interface ReleaseSet {
+  /** All published stable releases, sorted by version (highest first) */
+  stableReleases: StableRelease[];
+  /** Latest known beta build for each branch (eg `beta`, `main`) */
+  latestBetas: Record<string, BetaBuild>;
+}
 
-const {
-  data: { login },
-} = await octokit.rest.users.getAuthenticated();
-console.log("Authenticated to Github as: %s", login);
+export interface StableRelease {
+  version: SemVer;
+  publishedAt: Date;
+  /** Title of the release */
+  title: string | null;
+  /** Release notes, in markdown */
+  body: string | null;
+}
 
+/**
+ * The releases to consider when advising a specific installation
+ */
 export interface LatestReleases {
   currentStable: SemVer;
-  oldStable: SemVer;
+  /** The stable releases available to the installation, sorted by version (highest first) */
+  stableReleases: StableRelease[];
+  /** Latest known beta build for each branch (eg `beta`, `main`) */
+  latestBetas: Record<string, BetaBuild>;
 }
 
-export async function fetchReleases() {
-  const owner = "bitfocus";
-  const repo = "companion";
-
-  const releasesResponse = await octokit.rest.repos.listReleases({
-    owner,
-    repo,
-    per_page: 25, // Should be enough for the latest couple of minor releases
-  });
-
-  const releases = releasesResponse.data;
+export interface BetaBuild {
+  version: SemVer;
+  buildNumber: number;
+}
 
-  // ignore drafts and prereleases, and ignore any releases newer than 1 hour, to give them a gentler rollout
-  const oneHourAgo = Date.now() - 1000 * 60 * 60;
+/**
+ * Format of the optional builds manifest, listing recent builds of each branch.
+ * The build strings must follow the build format of the app, eg: `4.2.0+7001-beta-ee7c3daa`
+ */
+const BuildsManifest = z.object({
+  builds: z.array(
+    z.object({
+      branch: z.string().optional(),
+      build: z.string(),
+    })
+  ),
+});
 
-  type VersionEntry = {
-    sem: SemVer; // parsed SemVer
-    raw: string; // original tag/name
-  };
+export async function fetchReleases(
+  provider: ReleaseProvider,
+  app: AppDefinition
+): Promise<ReleaseSet> {
+  const releases = await provider.listReleases(app);
 
-  const byMinor = new Map<string, VersionEntry>();
+  // ignore drafts, and track prereleases separately
+  // Newly published releases are included here, the rollout decides who gets told about them
+  const stableReleases: StableRelease[] = [];
+  const latestBetas: Record<string, BetaBuild> = {};
 
   for (const r of releases) {
     if (r.draft) continue;
-    if (r.prerelease) continue;
-    if (!r.published_at) continue;
+    if (r.prerelease) {
+      // Prereleases are tracked separately, to inform beta users of newer builds
+      for (const candidate of [r.tag, r.name]) {
+        const beta = candidate ? parseBetaBuild(app, candidate) : null;
+        if (beta) {
+          recordBetaBuild(latestBetas, beta.branch, beta);
+          break;
+        }
+      }
+      continue;
+    }
+    if (!r.publishedAt) continue;
 
-    const publishedAt = new Date(r.published_at).getTime();
-    if (isNaN(publishedAt)) continue;
-    if (publishedAt > oneHourAgo) continue; // ignore releases newer than 1 hour
+    const publishedAt = new Date(r.publishedAt);
+    if (isNaN(publishedAt.getTime())) continue;
 
-    // Prefer tag_name, then name
-    const candidate = (r.tag_name || r.name || "").replace(/^v/, "");
+    const candidate = r.tag.replace(/^v/, "");
     const coerced = semver.coerce(candidate, { loose: true })?.version;
     if (!coerced) continue;
 
     const parsed = semver.parse(coerced, { loose: true });
     if (!parsed) continue;
 
-    const minorKey = `${parsed.major}.${parsed.minor}`;
+    // Withdrawn releases must never be offered
+    if (findYankedRelease(app.name, parsed.version)) continue;
 
-    const existing = byMinor.get(minorKey);
-    if (!existing) {
-      byMinor.set(minorKey, { sem: parsed, raw: candidate });
-    } else {
-      // keep highest patch for this minor
-      if (semver.gt(parsed, existing.sem)) {
-        byMinor.set(minorKey, { sem: parsed, raw: candidate });
+    stableReleases.push({
+      version: parsed,
+      publishedAt,
+      title: r.name,
+      body: r.body,
+    });
+  }
+
+  // sort by semver desc (highest version first)
+  stableReleases.sort((a, b) => semver.compare(b.version, a.version));
+
+  if (stableReleases.length === 0) {
+    throw new Error(`No suitable stable releases found for ${app.name}`);
+  }
+
+  const manifestUrl = getBuildsManifestUrl(app);
+  if (manifestUrl) {
+    try {
+      for (const beta of await fetchBuildsManifest(app, manifestUrl)) {
+        recordBetaBuild(latestBetas, beta.branch, beta);
       }
+    } catch (err) {
+      // The stable releases are more important, so don't let this fail the whole fetch
+      console.error("Error fetching %s builds manifest:", app.name, err);
+      Sentry.captureException(err, { extra: { app: app.name, manifestUrl } });
     }
   }
 
-  // produce array sorted by semver desc (highest version first)
-  const sorted = Array.from(byMinor.values()).sort((a, b) =>
-    semver.compare(b.sem, a.sem)
-  );
+  return {
+    stableReleases,
+    latestBetas,
+  };
+}
 
-  if (sorted.length === 0) {
-    throw new Error("No suitable stable releases found");
-  }
+/**
+ * Pick the current stable version from a list of stable releases
+ * @param stableReleases Releases to pick from, sorted by version (highest first)
+ */
+export function selectStableReleases(
+  stableReleases: StableRelease[]
+): Pick<LatestReleases, "currentStable"> | null {
+  if (stableReleases.length === 0) return null;
 
   // pick the highest as current
-  const currentStable = sorted[0].sem;
-
-  // pick the next entry with a different minor (major.minor)
-  let oldStable: SemVer | null = null;
-  for (let i = 1; i < sorted.length; i++) {
-    const candidate = sorted[i].sem;
-    if (
-      candidate.major !== currentStable.major ||
-      candidate.minor !== currentStable.minor
-    ) {
-      oldStable = candidate;
-      break;
-    }
+  return {
+    currentStable: stableReleases[0].version,
+  };
+}
+
+/**
+ * The url of a builds manifest can be provided per app, eg `BUILDS_MANIFEST_URL_COMPANION`
+ */
+function getBuildsManifestUrl(app: AppDefinition): string | undefined {
+  const key = `BUILDS_MANIFEST_URL_${app.name
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "_")}`;
+  return process.env[key] || undefined;
+}
+
+async function fetchBuildsManifest(
+  app: AppDefinition,
+  manifestUrl: string
+): Promise<Array<BetaBuild & { branch: string }>> {
+  const response = await fetch(manifestUrl, {
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch builds manifest for ${app.name}: ${response.status} ${response.statusText}`
+    );
   }
 
-  if (!oldStable) {
-    oldStable = sorted[1].sem;
+  const manifest = BuildsManifest.parse(await response.json());
+
+  const betas: Array<BetaBuild & { branch: string }> = [];
+  for (const entry of manifest.builds) {
+    const beta = parseBetaBuild(app, entry.build);
+    if (!beta) continue;
+
+    betas.push({ ...beta, branch: entry.branch || beta.branch });
+  }
+  return betas;
+}
+
+/**
+ * Parse a beta build string (or prerelease tag) into its version, build number and branch
+ * Accepts either the full build format of the app, or a tag like `v4.2.0-beta.7001`
+ */
+function parseBetaBuild(
+  app: AppDefinition,
+  raw: string
+): (BetaBuild & { branch: string }) | null {
+  const buildInfo = parseBuildInfo(app, raw);
+  if (buildInfo) {
+    return {
+      version: buildInfo.version,
+      buildNumber: buildInfo.buildNumber,
+      branch: buildInfo.branch,
+    };
   }
 
+  const parsed = semver.parse(raw.replace(/^v/, ""), { loose: true });
+  if (!parsed || parsed.prerelease.length < 2) return null;
+
+  const [branch, buildNumber] = parsed.prerelease;
+  if (typeof branch !== "string" || typeof buildNumber !== "number") {
+    return null;
+  }
+
+  const version = semver.parse(
+    `${parsed.major}.${parsed.minor}.${parsed.patch}`
+  );
+  if (!version) return null;
+
+  return { version, buildNumber, branch };
+}
+
+function recordBetaBuild(
+  latestBetas: Record<string, BetaBuild>,
+  branch: string,
+  beta: BetaBuild
+) {
+  const existing = latestBetas[branch];
+  if (!existing || beta.buildNumber > existing.buildNumber) {
+    latestBetas[branch] = {
+      version: beta.version,
+      buildNumber: beta.buildNumber,
+    };
+  }
+}
+
+/**
+ * How fresh the releases of an app are
+ */
+export interface ReleaseCacheStatus {
+  /** When the releases in use were fetched from the provider, null when none are known */
+  fetchedAt: Date | null;
+  /** Where the releases in use were loaded from */
+  source: "provider" | "database" | null;
+  /** Number of failed fetches since the last successful one */
+  consecutiveFailures: number;
+  lastError: string | null;
+  nextRefreshAt: Date | null;
+}
+
+const REFRESH_INTERVAL = 5 * 60 * 1000;
+// After a failed fetch, retry sooner, backing off up to the max delay
+const RETRY_MIN_DELAY = 15 * 1000;
+const RETRY_MAX_DELAY = 15 * 60 * 1000;
+
+const latestReleases = new Map<string, ReleaseSet>();
+const releaseCacheStatus = new Map<string, ReleaseCacheStatus>();
+const refreshTimers = new Map<string, NodeJS.Timeout>();
+let releaseProvider: ReleaseProvider | null = null;
+let releaseCachePrisma: PrismaClient | null = null;
+
+export function getLatestReleases(appName: string): ReleaseSet | null {
+  return latestReleases.get(appName) ?? null;
+}
+
+export function getReleaseCacheStatus(appName: string): ReleaseCacheStatus {
+  return (
+    releaseCacheStatus.get(appName) ?? {
+      fetchedAt: null,
+      source: null,
+      consecutiveFailures: 0,
+      lastError: null,
+      nextRefreshAt: null,
+    }
+  );
+}
+
+/**
+ * Remove any releases which have been withdrawn since the release set was fetched
+ */
+function excludeYankedReleases(
+  appName: string,
+  releaseSet: ReleaseSet
+): ReleaseSet {
   return {
-    currentStable,
-    oldStable,
+    ...releaseSet,
+    stableReleases: releaseSet.stableReleases.filter(
+      (release) => !findYankedRelease(appName, release.version.version)
+    ),
   };
 }
 
-let latestReleases: LatestReleases | null = null;
+/**
+ * Fetch the releases of an app
+ * @returns Whether the fetch succeeded
+ */
+async function doUpdateLatestReleases(
+  provider: ReleaseProvider,
+  app: AppDefinition
+): Promise<boolean> {
+  try {
+    const releases = await fetchReleases(provider, app);
+    const fetchedAt = new Date();
 
-export function getLatestReleases() {
-  return latestReleases;
-}
+    latestReleases.set(app.name, releases);
+    releaseCacheStatus.set(app.name, {
+      ...getReleaseCacheStatus(app.name),
+      fetchedAt,
+      source: "provider",
+      consecutiveFailures: 0,
+      lastError: null,
+    });
 
-async function doUpdateLatestReleases() {
-  return fetchReleases()
-    .then((releases) => {
-      latestReleases = releases;
-      console.log(
-        "Fetched latest releases: current=%s old=%s",
-        releases.currentStable.version,
-        releases.oldStable.version
-      );
-    })
-    .catch((err) => {
-      console.error("Error fetching latest releases:", err);
-      Sentry.captureException(err, {});
+    console.log(
+      "Fetched latest %s releases from %s: newest=%s count=%d betas=%s",
+      app.name,
+      provider.name,
+      releases.stableReleases[0].version.version,
+      releases.stableReleases.length,
+      Object.entries(releases.latestBetas)
+        .map(([branch, beta]) => `${branch}@${beta.buildNumber}`)
+        .join(",") || "none"
+    );
+
+    if (releaseCachePrisma) {
+      // Failing to persist only affects the next restart, so isn't a failed fetch
+      await saveCachedReleases(releaseCachePrisma, app.name, {
+        releaseSet: releases,
+        fetchedAt,
+      }).catch((err) => {
+        console.error("Error saving cached %s releases:", app.name, err);
+        Sentry.captureException(err, { extra: { app: app.name } });
+      });
+    }
+
+    return true;
+  } catch (err) {
+    console.error("Error fetching latest %s releases:", app.name, err);
+    Sentry.captureException(err, { extra: { app: app.name } });
+
+    const status = getReleaseCacheStatus(app.name);
+    releaseCacheStatus.set(app.name, {
+      ...status,
+      consecutiveFailures: status.consecutiveFailures + 1,
+      lastError: err instanceof Error ? err.message : String(err),
     });
+
+    // Keep serving the stale releases, but ensure a release withdrawn in the meantime is no longer offered
+    const stale = latestReleases.get(app.name);
+    if (stale)
+      latestReleases.set(app.name, excludeYankedReleases(app.name, stale));
+
+    return false;
+  }
+}
+
+/**
+ * Fetch the releases of an app, and schedule the next fetch.
+ * Failed fetches are retried with an exponential backoff
+ */
+async function refreshAppReleases(
+  provider: ReleaseProvider,
+  app: AppDefinition
+): Promise<void> {
+  await doUpdateLatestReleases(provider, app);
+
+  const { consecutiveFailures } = getReleaseCacheStatus(app.name);
+  const delay =
+    consecutiveFailures === 0
+      ? REFRESH_INTERVAL
+      : Math.min(
+          RETRY_MIN_DELAY * 2 ** (consecutiveFailures - 1),
+          RETRY_MAX_DELAY
+        );
+
+  scheduleAppRefresh(provider, app, delay);
+}
+
+function scheduleAppRefresh(
+  provider: ReleaseProvider,
+  app: AppDefinition,
+  delay: number
+) {
+  clearTimeout(refreshTimers.get(app.name));
+  refreshTimers.set(
+    app.name,
+    setTimeout(() => {
+      refreshAppReleases(provider, app);
+    }, delay)
+  );
+
+  releaseCacheStatus.set(app.name, {
+    ...getReleaseCacheStatus(app.name),
+    nextRefreshAt: new Date(Date.now() + delay),
+  });
 }
 
-setInterval(() => {
-  doUpdateLatestReleases();
-}, 5 * 60 * 1000);
+/**
+ * Refetch the releases immediately, rather than waiting for the next poll
+ * This does nothing until the polling has been started
+ * @param appName Only refetch the releases of this app
+ */
+export async function refreshLatestReleases(appName?: string): Promise<void> {
+  const provider = releaseProvider;
+  if (!provider) return;
+
+  const apps = appName
+    ? [getAppDefinition(appName)].filter((app) => !!app)
+    : getAllAppDefinitions();
+
+  // Do these sequentially, to be gentle on any rate limits
+  for (const app of apps) {
+    await refreshAppReleases(provider, app);
+  }
+}
+
+/**
+ * Start polling the provider for releases.
+ * The last known releases are loaded from the database first, so that update checks can be answered straight away,
+ * even when the provider is unavailable. Only apps without any known releases wait for the initial fetch.
+ * Failures are reported but not fatal, update checks will ask clients to retry until releases are known
+ */
+export async function startReleasesRefresh(
+  provider: ReleaseProvider,
+  prisma: PrismaClient
+): Promise<void> {
+  if (releaseProvider) throw new Error("Releases refresh already started");
+  releaseProvider = provider;
+  releaseCachePrisma = prisma;
+
+  try {
+    const cached = await loadCachedReleases(prisma);
+    for (const [appName, { releaseSet, fetchedAt }] of cached) {
+      if (!getAppDefinition(appName)) continue;
 
-// Perform an initial fetch, before the app can start
-await doUpdateLatestReleases();
+      const releases = excludeYankedReleases(appName, releaseSet);
+      if (releases.stableReleases.length === 0) continue;
+
+      latestReleases.set(appName, releases);
+      releaseCacheStatus.set(appName, {
+        ...getReleaseCacheStatus(appName),
+        fetchedAt,
+        source: "database",
+      });
+
+      console.log(
+        "Loaded cached %s releases: newest=%s fetchedAt=%s",
+        appName,
+        releases.stableReleases[0].version.version,
+        fetchedAt.toISOString()
+      );
+    }
+  } catch (err) {
+    console.error("Error loading cached releases:", err);
+    Sentry.captureException(err, {});
+  }
+
+  for (const app of getAllAppDefinitions()) {
+    if (latestReleases.has(app.name)) {
+      // Refresh in the background, the cached releases are good enough for now
+      scheduleAppRefresh(provider, app, 0);
+    } else {
+      await refreshAppReleases(provider, app);
+    }
+  }
+}
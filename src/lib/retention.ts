@@ -0,0 +1,262 @@
+import type { PrismaClient } from "../prisma/client.js";
+import * as Sentry from "@sentry/node";
+import { scheduleDaily } from "./schedule.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shorter retentions would affect the monthly active installation counts
+const MIN_TTL_DAYS = 31;
+
+// Run after the usage rollups, during the night in Europe
+const RETENTION_HOUR_UTC = 4;
+
+// Rows are deleted in batches, to avoid locking the tables for too long
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * The operations of a Prisma model which the retention uses
+ */
+interface RetentionModel<TId extends number | string> {
+  count(args: { where: Record<string, { lt: Date }> }): Promise<number>;
+  findMany(args: {
+    where: Record<string, { lt: Date }>;
+    select: { id: true };
+    take: number;
+  }): Promise<Array<{ id: TId }>>;
+  deleteMany(args: { where: { id: { in: TId[] } } }): Promise<{
+    count: number;
+  }>;
+}
+
+/**
+ * How long the rows of a table are kept for, after their timestamp
+ */
+interface RetentionPolicy {
+  table: string;
+  /** Environment variable the ttl is configured with */
+  envName: string;
+  /** Days to keep the rows for, or null to keep them forever */
+  ttlDays: number | null;
+  count(prisma: PrismaClient, cutoff: Date): Promise<number>;
+  /** Delete a batch of the rows older than the cutoff, returning how many were deleted */
+  deleteBatch(prisma: PrismaClient, cutoff: Date): Promise<number>;
+}
+
+export interface RetentionTableReport {
+  table: string;
+  ttlDays: number;
+  cutoff: string;
+  /** Rows deleted, or which would be deleted for a dry run */
+  rows: number;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  tables: RetentionTableReport[];
+}
+
+/**
+ * Parse the number of days to keep the rows of a table for. When not set, they are kept forever
+ */
+export function parseRetentionTtl(
+  envName: string,
+  value: string | undefined
+): number | null {
+  if (!value) return null;
+
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < MIN_TTL_DAYS) {
+    throw new Error(
+      `Invalid ${envName}: "${value}", must be at least ${MIN_TTL_DAYS} days`
+    );
+  }
+  return days;
+}
+
+/**
+ * @param getModel The Prisma model of the table
+ * @param timestampColumn The column the age of the rows is measured from
+ */
+function createPolicy<TId extends number | string>(
+  table: string,
+  envName: string,
+  getModel: (prisma: PrismaClient) => RetentionModel<TId>,
+  timestampColumn: string
+): RetentionPolicy {
+  const olderThan = (cutoff: Date) => ({ [timestampColumn]: { lt: cutoff } });
+
+  return {
+    table,
+    envName,
+    ttlDays: parseRetentionTtl(envName, process.env[envName]),
+    count: (prisma, cutoff) =>
+      getModel(prisma).count({ where: olderThan(cutoff) }),
+    deleteBatch: async (prisma, cutoff) => {
+      const model = getModel(prisma);
+
+      const rows = await model.findMany({
+        where: olderThan(cutoff),
+        select: { id: true },
+        take: DELETE_BATCH_SIZE,
+      });
+      if (rows.length === 0) return 0;
+
+      const { count } = await model.deleteMany({
+        where: { id: { in: rows.map((r) => r.id) } },
+      });
+      return count;
+    },
+  };
+}
+
+const RETENTION_POLICIES: RetentionPolicy[] = [
+  createPolicy(
+    "ModuleUserLastSeen",
+    "RETENTION_MODULE_LAST_SEEN_DAYS",
+    (prisma) => prisma.moduleUserLastSeen,
+    "last_seen"
+  ),
+  createPolicy(
+    "SurfaceUserLastSeen",
+    "RETENTION_SURFACE_LAST_SEEN_DAYS",
+    (prisma) => prisma.surfaceUserLastSeen,
+    "last_seen"
+  ),
+  createPolicy(
+    "User",
+    "RETENTION_USER_DAYS",
+    (prisma) => prisma.user,
+    "updatedAt"
+  ),
+  createPolicy(
+    "UserVersionTransition",
+    "RETENTION_VERSION_TRANSITIONS_DAYS",
+    (prisma) => prisma.userVersionTransition,
+    "createdAt"
+  ),
+  createPolicy(
+    "InstallationUpdateAdvice",
+    "RETENTION_UPDATE_ADVICE_DAYS",
+    (prisma) => prisma.installationUpdateAdvice,
+    "last_advised_at"
+  ),
+  createPolicy(
+    "CompanionFeatures",
+    "RETENTION_FEATURES_DAYS",
+    (prisma) => prisma.companionFeatures,
+    "updatedAt"
+  ),
+];
+
+let lastRetentionReport: RetentionReport | null = null;
+
+export function getLastRetentionReport(): RetentionReport | null {
+  return lastRetentionReport;
+}
+
+/**
+ * Get the configured retention of each table
+ */
+export function getRetentionPolicies(now: Date = new Date()): Array<{
+  table: string;
+  envName: string;
+  ttlDays: number | null;
+  cutoff: string | null;
+}> {
+  return RETENTION_POLICIES.map((policy) => ({
+    table: policy.table,
+    envName: policy.envName,
+    ttlDays: policy.ttlDays,
+    cutoff:
+      policy.ttlDays !== null
+        ? getTtlCutoff(policy.ttlDays, now).toISOString()
+        : null,
+  }));
+}
+
+/**
+ * Get the time before which the rows of a table are deleted, or null when they are kept forever
+ */
+export function getRetentionCutoff(
+  table: string,
+  now: Date = new Date()
+): Date | null {
+  const policy = RETENTION_POLICIES.find((p) => p.table === table);
+  return policy?.ttlDays ? getTtlCutoff(policy.ttlDays, now) : null;
+}
+
+function getTtlCutoff(ttlDays: number, now: Date): Date {
+  return new Date(now.getTime() - ttlDays * DAY_MS);
+}
+
+/**
+ * Delete the rows which have outlived the retention of their table
+ * @param dryRun Only count the rows which would be deleted
+ */
+export async function runRetention(
+  prisma: PrismaClient,
+  dryRun: boolean,
+  now: Date = new Date()
+): Promise<RetentionReport> {
+  const startedAt = new Date();
+  const tables: RetentionTableReport[] = [];
+
+  for (const policy of RETENTION_POLICIES) {
+    if (policy.ttlDays === null) continue;
+
+    const cutoff = getTtlCutoff(policy.ttlDays, now);
+
+    let rows = 0;
+    if (dryRun) {
+      rows = await policy.count(prisma, cutoff);
+    } else {
+      while (true) {
+        const deleted = await policy.deleteBatch(prisma, cutoff);
+        rows += deleted;
+        if (deleted < DELETE_BATCH_SIZE) break;
+      }
+    }
+
+    tables.push({
+      table: policy.table,
+      ttlDays: policy.ttlDays,
+      cutoff: cutoff.toISOString(),
+      rows,
+    });
+  }
+
+  const report: RetentionReport = {
+    dryRun,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    tables,
+  };
+  if (!dryRun) lastRetentionReport = report;
+
+  return report;
+}
+
+/**
+ * Apply the retention every night
+ */
+export function startRetention(prisma: PrismaClient): void {
+  if (RETENTION_POLICIES.every((policy) => policy.ttlDays === null)) {
+    console.log("No retention configured, rows are kept forever");
+    return;
+  }
+
+  scheduleDaily(RETENTION_HOUR_UTC, async () => {
+    try {
+      const report = await runRetention(prisma, false);
+      console.log(
+        "Retention deleted: %s",
+        report.tables.map((t) => `${t.table} ${t.rows}`).join(", ")
+      );
+    } catch (err) {
+      console.error("Error applying retention:", err);
+      Sentry.captureException(err, {});
+    }
+  });
+}
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import semver from "semver";
+import type { StableRelease } from "./releases.js";
+import {
+  getRolloutBucket,
+  getRolloutPercentage,
+  parseRolloutSchedule,
+  resolveReleasesForInstallation,
+  rolloutOverrideKey,
+  setRolloutOverrides,
+  type RolloutOverride,
+} from "./rollout.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function createRelease(version: string, ageHours: number): StableRelease {
+  return {
+    version: semver.parse(version) as semver.SemVer,
+    publishedAt: new Date(Date.now() - ageHours * HOUR_MS),
+    title: null,
+    body: null,
+  };
+}
+
+function setOverride(version: string, override: RolloutOverride): void {
+  setRolloutOverrides(
+    new Map([[rolloutOverrideKey("companion", version), override]])
+  );
+}
+
+describe("rollout", () => {
+  afterEach(() => {
+    setRolloutOverrides(new Map());
+  });
+
+  it("parses a rollout schedule", () => {
+    assert.deepEqual(parseRolloutSchedule("1d:100, 30m:5"), [
+      { afterMs: 30 * 60 * 1000, percentage: 5 },
+      { afterMs: 24 * HOUR_MS, percentage: 100 },
+    ]);
+    assert.throws(() => parseRolloutSchedule("1h:50"));
+    assert.throws(() => parseRolloutSchedule("1w:100"));
+    assert.throws(() => parseRolloutSchedule("1h:150,2h:100"));
+  });
+
+  it("puts an installation in the same bucket every time", () => {
+    const bucket = getRolloutBucket("installation-1");
+    assert.equal(getRolloutBucket("installation-1"), bucket);
+    assert.ok(bucket >= 0 && bucket < 100);
+  });
+
+  it("follows the default schedule", () => {
+    assert.equal(
+      getRolloutPercentage("companion", createRelease("4.2.0", 0)),
+      0
+    );
+    assert.equal(
+      getRolloutPercentage("companion", createRelease("4.2.0", 2)),
+      1
+    );
+    assert.equal(
+      getRolloutPercentage("companion", createRelease("4.2.0", 30)),
+      50
+    );
+    assert.equal(
+      getRolloutPercentage("companion", createRelease("4.2.0", 80)),
+      100
+    );
+  });
+
+  it("applies the operator overrides", () => {
+    const release = createRelease("4.2.0", 80);
+
+    setOverride("4.2.0", { state: "PAUSED", pausedPercentage: 10 });
+    assert.equal(getRolloutPercentage("companion", release), 10);
+
+    setOverride("4.2.0", { state: "HALTED", pausedPercentage: null });
+    assert.equal(getRolloutPercentage("companion", release), 0);
+  });
+
+  it("only offers a release to the installations in its rollout", () => {
+    const releaseSet = {
+      stableReleases: [createRelease("4.2.0", 80), createRelease("4.1.0", 500)],
+      latestBetas: {},
+    };
+    setOverride("4.2.0", { state: "PAUSED", pausedPercentage: 50 });
+
+    let offered = 0;
+    for (let i = 0; i < 200; i++) {
+      const releases = resolveReleasesForInstallation(
+        "companion",
+        releaseSet,
+        `installation-${i}`
+      );
+      if (releases?.currentStable.version === "4.2.0") {
+        offered++;
+      } else {
+        assert.equal(releases?.currentStable.version, "4.1.0");
+      }
+    }
+    assert.ok(offered > 50 && offered < 150);
+  });
+});
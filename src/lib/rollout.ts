@@ -0,0 +1,186 @@
+import crypto from "crypto";
+import type { RolloutState } from "../prisma/enums.js";
+import {
+  selectStableReleases,
+  type LatestReleases,
+  type ReleaseSet,
+  type StableRelease,
+} from "./releases.js";
+
+export interface RolloutStage {
+  /** Time since the release was published, before this stage begins */
+  afterMs: number;
+  /** Percentage of installations which are offered the release during this stage */
+  percentage: number;
+}
+
+/**
+ * Operator override for the rollout of a release
+ */
+export interface RolloutOverride {
+  state: RolloutState;
+  /** The percentage the rollout was frozen at, when paused */
+  pausedPercentage: number | null;
+}
+
+const DEFAULT_ROLLOUT_SCHEDULE = "1h:1,6h:10,24h:50,72h:100";
+
+/**
+ * Parse a rollout schedule, in the format `<duration>:<percentage>,...`, eg `1h:1,6h:10,1d:50,3d:100`
+ * Durations accept the units `m`, `h` and `d`. Before the first stage, a release is offered to nobody.
+ */
+export function parseRolloutSchedule(schedule: string): RolloutStage[] {
+  const units: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+  };
+
+  const stages = schedule
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => !!s)
+    .map((stage): RolloutStage => {
+      const match = stage.match(/^(\d+(?:\.\d+)?)([mhd]):(\d+(?:\.\d+)?)$/);
+      if (!match) throw new Error(`Invalid rollout stage: "${stage}"`);
+
+      const percentage = Number(match[3]);
+      if (percentage > 100) {
+        throw new Error(`Invalid rollout stage percentage: "${stage}"`);
+      }
+
+      return {
+        afterMs: Number(match[1]) * units[match[2]],
+        percentage,
+      };
+    })
+    .sort((a, b) => a.afterMs - b.afterMs);
+
+  if (stages.length === 0 || stages[stages.length - 1].percentage !== 100) {
+    throw new Error("Rollout schedule must end with a stage at 100%");
+  }
+
+  return stages;
+}
+
+const rolloutSchedule = parseRolloutSchedule(
+  process.env.ROLLOUT_SCHEDULE || DEFAULT_ROLLOUT_SCHEDULE
+);
+
+/** Overrides keyed by `${app_name}@${version}` */
+let rolloutOverrides = new Map<string, RolloutOverride>();
+
+export function setRolloutOverrides(
+  overrides: Map<string, RolloutOverride>
+): void {
+  rolloutOverrides = overrides;
+}
+
+export function rolloutOverrideKey(appName: string, version: string): string {
+  return `${appName}@${version}`;
+}
+
+/**
+ * Get a stable bucket for an installation, in the range [0, 100)
+ * The same installation always lands in the same bucket, so it doesn't flip-flop between being offered a release or not
+ */
+export function getRolloutBucket(installationId: string): number {
+  const hash = crypto.createHash("sha256").update(installationId).digest();
+  return (hash.readUInt32BE(0) / 0x100000000) * 100;
+}
+
+/**
+ * The percentage of installations a release should be offered to, according to the schedule alone
+ */
+export function getScheduledRolloutPercentage(
+  release: StableRelease,
+  now: number = Date.now()
+): number {
+  const age = now - release.publishedAt.getTime();
+
+  let percentage = 0;
+  for (const stage of rolloutSchedule) {
+    if (age >= stage.afterMs) percentage = stage.percentage;
+  }
+  return percentage;
+}
+
+/**
+ * The percentage of installations a release is offered to, taking any operator override into account
+ */
+export function getRolloutPercentage(
+  appName: string,
+  release: StableRelease,
+  now: number = Date.now()
+): number {
+  const override = rolloutOverrides.get(
+    rolloutOverrideKey(appName, release.version.version)
+  );
+  switch (override?.state) {
+    case "HALTED":
+      return 0;
+    case "PAUSED":
+      return override.pausedPercentage ?? 0;
+    default:
+      return getScheduledRolloutPercentage(release, now);
+  }
+}
+
+export function getRolloutOverride(
+  appName: string,
+  version: string
+): RolloutOverride | undefined {
+  return rolloutOverrides.get(rolloutOverrideKey(appName, version));
+}
+
+/**
+ * Resolve the releases which a specific installation should be advised about, based on the rollout bucket it falls into
+ * @param filter Optionally exclude releases which are not suitable for the installation
+ */
+export function resolveReleasesForInstallation(
+  appName: string,
+  releaseSet: ReleaseSet,
+  installationId: string,
+  filter?: (release: StableRelease) => boolean
+): LatestReleases | null {
+  const bucket = getRolloutBucket(installationId);
+  const now = Date.now();
+
+  const availableReleases = releaseSet.stableReleases.filter(
+    (release) =>
+      bucket < getRolloutPercentage(appName, release, now) &&
+      (!filter || filter(release))
+  );
+
+  const stable = selectStableReleases(availableReleases);
+  if (!stable) return null;
+
+  return {
+    ...stable,
+    stableReleases: availableReleases,
+    latestBetas: releaseSet.latestBetas,
+  };
+}
+
+/**
+ * Resolve the releases which have been rolled out to every installation
+ */
+export function resolveFullyRolledOutReleases(
+  appName: string,
+  releaseSet: ReleaseSet
+): LatestReleases | null {
+  const now = Date.now();
+
+  const availableReleases = releaseSet.stableReleases.filter(
+    (release) => getRolloutPercentage(appName, release, now) >= 100
+  );
+
+  const stable = selectStableReleases(availableReleases);
+  if (!stable) return null;
+
+  return {
+    ...stable,
+    stableReleases: availableReleases,
+    latestBetas: releaseSet.latestBetas,
+  };
+}
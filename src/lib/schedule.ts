@@ -0,0 +1,26 @@
+/**
+ * Run a task every day at an hour (UTC). The task is not run immediately
+ */
+export function scheduleDaily(
+  hourUtc: number,
+  task: () => Promise<void>
+): void {
+  const scheduleNext = () => {
+    const now = new Date();
+    const next = new Date(
+      Date.UTC(
+        now.getUTCFullYear(),
+        now.getUTCMonth(),
+        now.getUTCDate(),
+        hourUtc
+      )
+    );
+    if (next <= now) next.setUTCDate(next.getUTCDate() + 1);
+
+    setTimeout(() => {
+      task().finally(scheduleNext);
+    }, next.getTime() - now.getTime());
+  };
+
+  scheduleNext();
+}
@@ -0,0 +1,53 @@
+import semver, { type SemVer } from "semver";
+import type { SecurityAdvisory } from "../prisma/client.js";
+import type { AdvisorySeverity } from "../prisma/enums.js";
+
+export type ActiveSecurityAdvisory = Pick<
+  SecurityAdvisory,
+  | "id"
+  | "app_name"
+  | "affected_range"
+  | "fixed_version"
+  | "severity"
+  | "title"
+  | "advisory_url"
+>;
+
+const SEVERITY_ORDER: Record<AdvisorySeverity, number> = {
+  LOW: 0,
+  MEDIUM: 1,
+  HIGH: 2,
+  CRITICAL: 3,
+};
+
+/** Enabled advisories, sorted by severity (most severe first) */
+let activeAdvisories: ActiveSecurityAdvisory[] = [];
+
+export function setActiveSecurityAdvisories(
+  advisories: ActiveSecurityAdvisory[]
+): void {
+  activeAdvisories = [...advisories].sort(
+    (a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity]
+  );
+}
+
+/**
+ * Find the most severe advisory affecting a version of an app
+ */
+export function findSecurityAdvisory(
+  appName: string,
+  version: SemVer
+): ActiveSecurityAdvisory | null {
+  // Compare only the core version, the build metadata doesn't affect whether the fix is included
+  const coreVersion = `${version.major}.${version.minor}.${version.patch}`;
+
+  return (
+    activeAdvisories.find(
+      (advisory) =>
+        advisory.app_name === appName &&
+        semver.satisfies(coreVersion, advisory.affected_range, {
+          loose: true,
+        })
+    ) ?? null
+  );
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { PrismaClient } from "../prisma/client.js";
+import { BOOLEAN_FEATURES } from "./feature-stats.js";
+import {
+  exportDataset,
+  getExportMinInstallations,
+  parseExportMinInstallations,
+  type ExportDataset,
+} from "./stats-export.js";
+
+const options = { since: new Date(0), minInstallations: 10 };
+
+async function collectCsv(
+  prisma: PrismaClient,
+  dataset: ExportDataset
+): Promise<string[]> {
+  const lines: string[] = [];
+  for await (const line of exportDataset(prisma, dataset, "csv", options)) {
+    lines.push(line.trimEnd());
+  }
+  return lines;
+}
+
+describe("stats export threshold", () => {
+  it("parses the configured threshold", () => {
+    assert.equal(parseExportMinInstallations(undefined), 10);
+    assert.equal(parseExportMinInstallations("25"), 25);
+    assert.throws(() => parseExportMinInstallations("ten"));
+    assert.throws(() => parseExportMinInstallations("0"));
+    assert.throws(() => parseExportMinInstallations("2.5"));
+  });
+
+  it("doesn't allow the threshold to be lowered or disabled", () => {
+    assert.equal(getExportMinInstallations(), 10);
+    assert.equal(getExportMinInstallations(2), 10);
+    assert.equal(getExportMinInstallations(25), 25);
+    assert.equal(getExportMinInstallations(NaN), 10);
+  });
+
+  it("leaves out groups with too few installations", async () => {
+    const prisma = {
+      user: {
+        groupBy: async () => [
+          { app_name: "companion", app_version: "4.1.0", _count: { _all: 12 } },
+          { app_name: "companion", app_version: "4.1.1", _count: { _all: 3 } },
+        ],
+      },
+    } as unknown as PrismaClient;
+
+    assert.deepEqual(await collectCsv(prisma, "versions"), [
+      "app_name,app_version,installations",
+      "companion,4.1.0,12",
+    ]);
+  });
+
+  it("leaves out feature flags when few installations have any of the values", async () => {
+    const totals: Record<string, number> = { installations: 50 };
+    for (const field of BOOLEAN_FEATURES) {
+      totals[`${field}_enabled`] = 30;
+      totals[`${field}_disabled`] = 20;
+      totals[`${field}_unknown`] = 0;
+    }
+    totals.cloudEnabled_enabled = 2;
+    totals.cloudEnabled_disabled = 48;
+
+    // The totals are read first, followed by the value counts of each field
+    let queries = 0;
+    const prisma = {
+      $queryRaw: async () => (queries++ === 0 ? [totals] : []),
+    } as unknown as PrismaClient;
+
+    const lines = await collectCsv(prisma, "feature-flags");
+    // The header, and every flag but the one left out
+    assert.equal(lines.length, 1 + BOOLEAN_FEATURES.length - 1);
+    assert.ok(!lines.some((line) => line.startsWith("cloudEnabled,")));
+    assert.ok(lines.includes("httpEnabled,50,30,20,0,60"));
+  });
+});
@@ -0,0 +1,277 @@
+import type { KnownModule, PrismaClient } from "../prisma/client.js";
+import { BOOLEAN_FEATURES, getFeatureStats } from "./feature-stats.js";
+import { getSurfaceDeviceTotals } from "./surface-stats.js";
+
+export const EXPORT_DATASETS = [
+  "module-adoption",
+  "surface-models",
+  "feature-flags",
+  "versions",
+] as const;
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+export const EXPORT_FORMATS = ["csv", "ndjson"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+type ExportRow = Record<string, string | number | null>;
+
+export interface ExportOptions {
+  /** Only include installations seen since this time */
+  since: Date;
+  /** Groups with fewer installations are left out, so that no installation can be singled out */
+  minInstallations: number;
+}
+
+const DEFAULT_MIN_INSTALLATIONS = 10;
+
+// Modules are exported in batches, to avoid building the whole dataset in memory
+const MODULE_BATCH_SIZE = 500;
+
+// Spreadsheets interpret cells starting with these as formulas
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Parse the fewest installations a group must have to be exported, defaulting to 10
+ */
+export function parseExportMinInstallations(value: string | undefined): number {
+  if (!value) return DEFAULT_MIN_INSTALLATIONS;
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(
+      `Invalid EXPORT_MIN_INSTALLATIONS: "${value}", must be a positive integer`
+    );
+  }
+  return count;
+}
+
+const exportMinInstallations = parseExportMinInstallations(
+  process.env.EXPORT_MIN_INSTALLATIONS
+);
+
+/**
+ * Get the fewest installations a group must have to be exported.
+ * A larger threshold can be requested, but not one below the configured minimum
+ */
+export function getExportMinInstallations(requested?: number): number {
+  // An invalid request mustn't disable the threshold
+  if (requested === undefined || !Number.isInteger(requested)) {
+    return exportMinInstallations;
+  }
+  return Math.max(requested, exportMinInstallations);
+}
+
+interface ExportDatasetDefinition {
+  columns: string[];
+  /** Other columns counting some of the installations of a row, which must meet the threshold too unless they are 0 */
+  countColumns?: string[];
+  /** The rows of the dataset. Each must have an `installations` column, for the threshold */
+  rows(prisma: PrismaClient, options: ExportOptions): AsyncIterable<ExportRow>;
+}
+
+const EXPORT_DATASET_DEFINITIONS: Record<
+  ExportDataset,
+  ExportDatasetDefinition
+> = {
+  "module-adoption": {
+    columns: [
+      "module_type",
+      "module_name",
+      "module_version",
+      "installations",
+      "instances",
+    ],
+    rows: async function* (prisma, options) {
+      // Sorted by module, so that the versions of each module are together
+      let cursor: { id: number } | undefined;
+      let currentModule: string | null = null;
+      let moduleRows: ExportRow[] = [];
+      while (true) {
+        const modules: KnownModule[] = await prisma.knownModule.findMany({
+          orderBy: [
+            { module_type: "asc" },
+            { module_name: "asc" },
+            { module_version: "asc" },
+            { id: "asc" },
+          ],
+          cursor,
+          skip: cursor ? 1 : 0,
+          take: MODULE_BATCH_SIZE,
+        });
+        if (modules.length === 0) break;
+        cursor = { id: modules[modules.length - 1].id };
+
+        const usage = await prisma.moduleUserLastSeen.groupBy({
+          by: ["module_id"],
+          where: {
+            module_id: { in: modules.map((m) => m.id) },
+            last_seen: { gte: options.since },
+          },
+          _count: { _all: true },
+          _sum: { max_count: true },
+        });
+        const usageByModule = new Map(usage.map((u) => [u.module_id, u]));
+
+        for (const module of modules) {
+          const key = `${module.module_type}:${module.module_name}`;
+          if (key !== currentModule) {
+            yield* withholdCombinedModuleRow(moduleRows, options);
+            currentModule = key;
+            moduleRows = [];
+          }
+
+          const moduleUsage = usageByModule.get(module.id);
+          if (!moduleUsage) continue;
+
+          moduleRows.push({
+            module_type: module.module_type,
+            module_name: module.module_name,
+            // The row with an empty version holds the counts of all the versions combined
+            module_version: module.module_version || "all",
+            installations: moduleUsage._count._all,
+            instances: moduleUsage._sum.max_count ?? 0,
+          });
+        }
+
+        if (modules.length < MODULE_BATCH_SIZE) break;
+      }
+
+      yield* withholdCombinedModuleRow(moduleRows, options);
+    },
+  },
+  "surface-models": {
+    columns: ["surface_description", "installations", "devices"],
+    rows: async function* (prisma, options) {
+      const totals = await getSurfaceDeviceTotals(
+        prisma,
+        options.since,
+        undefined
+      );
+      for (const model of totals.models) {
+        yield {
+          surface_description: model.description,
+          installations: model.installations,
+          devices: model.uniqueDevices,
+        };
+      }
+    },
+  },
+  "feature-flags": {
+    columns: [
+      "feature",
+      "installations",
+      "enabled",
+      "disabled",
+      "unknown",
+      "percentage",
+    ],
+    // The row is left out entirely, as the other counts and the percentage would reveal a withheld count
+    countColumns: ["enabled", "disabled", "unknown"],
+    rows: async function* (prisma, options) {
+      const [stats] = await getFeatureStats(prisma, options.since, []);
+      if (!stats) return;
+
+      for (const feature of BOOLEAN_FEATURES) {
+        const flag = stats.flags[feature];
+        yield {
+          feature,
+          installations: stats.installations,
+          enabled: flag.enabled,
+          disabled: flag.disabled,
+          unknown: flag.unknown,
+          percentage:
+            flag.percentage !== null
+              ? Math.round(flag.percentage * 100) / 100
+              : null,
+        };
+      }
+    },
+  },
+  versions: {
+    columns: ["app_name", "app_version", "installations"],
+    rows: async function* (prisma, options) {
+      const groups = await prisma.user.groupBy({
+        by: ["app_name", "app_version"],
+        where: { updatedAt: { gte: options.since } },
+        _count: { _all: true },
+        orderBy: [{ app_name: "asc" }, { app_version: "asc" }],
+      });
+      for (const group of groups) {
+        yield {
+          app_name: group.app_name,
+          app_version: group.app_version,
+          installations: group._count._all,
+        };
+      }
+    },
+  },
+};
+
+/**
+ * Leave out the combined row of a module when only some of its versions are below the threshold,
+ * as subtracting the other versions from it would reveal the counts of those left out
+ * @param rows The rows of each version of a module, and its combined row
+ */
+function withholdCombinedModuleRow(
+  rows: ExportRow[],
+  options: ExportOptions
+): ExportRow[] {
+  const versions = rows.filter((row) => row.module_version !== "all");
+  const belowThreshold = versions.filter(
+    (row) => Number(row.installations) < options.minInstallations
+  ).length;
+  if (belowThreshold === 0 || belowThreshold === versions.length) return rows;
+
+  return versions;
+}
+
+/**
+ * Produce an aggregated dataset, formatted as lines of CSV or NDJSON
+ */
+export async function* exportDataset(
+  prisma: PrismaClient,
+  dataset: ExportDataset,
+  format: ExportFormat,
+  options: ExportOptions
+): AsyncGenerator<string> {
+  const definition = EXPORT_DATASET_DEFINITIONS[dataset];
+
+  if (format === "csv") yield formatCsvLine(definition.columns);
+
+  for await (const row of definition.rows(prisma, options)) {
+    if (!meetsThreshold(row, definition, options)) continue;
+
+    yield format === "csv"
+      ? formatCsvLine(definition.columns.map((column) => row[column]))
+      : `${JSON.stringify(row)}\n`;
+  }
+}
+
+function meetsThreshold(
+  row: ExportRow,
+  definition: ExportDatasetDefinition,
+  options: ExportOptions
+): boolean {
+  if (Number(row.installations) < options.minInstallations) return false;
+
+  return (definition.countColumns ?? []).every((column) => {
+    const count = Number(row[column] ?? 0);
+    return count === 0 || count >= options.minInstallations;
+  });
+}
+
+function formatCsvLine(values: Array<string | number | null>): string {
+  return `${values
+    .map((value) => {
+      if (value === null) return "";
+
+      let text = String(value);
+      // Text which would be interpreted as a formula is prefixed, so that it is shown as text. Numbers are left as they are
+      if (typeof value === "string" && CSV_FORMULA_PREFIX.test(text)) {
+        text = `'${text}`;
+        return `"${text.replace(/"/g, '""')}"`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",")}\r\n`;
+}
@@ -0,0 +1,113 @@
+import { z } from "@bitfocusas/api";
+import { Prisma } from "../prisma/client.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StatsGrouping = "day" | "week" | "month";
+
+/**
+ * Query parameters shared by the reporting endpoints which report over a date range
+ */
+export const StatsRangeQuery = z.object({
+  from: z.coerce
+    .date()
+    .optional()
+    .describe("First day to report, defaults to 30 days ago"),
+  to: z.coerce
+    .date()
+    .optional()
+    .describe("Last day to report, defaults to today"),
+  grouping: z
+    .enum(["day", "week", "month"])
+    .default("day")
+    .describe(
+      "Length of each reported period. Weeks start on Monday. Days are only reported while their daily rows are retained"
+    ),
+});
+
+export interface StatsRange {
+  /** First day of the range, as UTC midnight */
+  from: Date;
+  /** Last day of the range, as UTC midnight */
+  to: Date;
+}
+
+/**
+ * Resolve the days to report, normalized to UTC midnight to match the daily usage tables
+ */
+export function resolveStatsRange(
+  from: Date | undefined,
+  to: Date | undefined,
+  defaultDays = 30
+): StatsRange {
+  const toDay = toUtcDay(to ?? new Date());
+  const fromDay = toUtcDay(
+    from ?? new Date(toDay.getTime() - (defaultDays - 1) * DAY_MS)
+  );
+  return { from: fromDay, to: toDay };
+}
+
+export function toUtcDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+export function formatStatsDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Get the first day of the period containing a day
+ */
+export function getStatsPeriodStart(grouping: StatsGrouping, date: Date): Date {
+  const day = toUtcDay(date);
+  switch (grouping) {
+    case "day":
+      return day;
+    case "week":
+      // Weeks start on Monday
+      return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+    case "month":
+      return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  }
+}
+
+/**
+ * Get the first day of the period after the one starting at `periodStart`
+ */
+export function getNextStatsPeriodStart(
+  grouping: StatsGrouping,
+  periodStart: Date
+): Date {
+  switch (grouping) {
+    case "day":
+      return new Date(periodStart.getTime() + DAY_MS);
+    case "week":
+      return new Date(periodStart.getTime() + 7 * DAY_MS);
+    case "month":
+      return new Date(
+        Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + 1, 1)
+      );
+  }
+}
+
+/**
+ * SQL expression for the first day of the period containing a date column, formatted as `yyyy-mm-dd`
+ * @param column The column, which must be trusted as it is inserted as raw sql
+ */
+export function getStatsPeriodSql(
+  grouping: StatsGrouping,
+  column: string
+): Prisma.Sql {
+  switch (grouping) {
+    case "day":
+      return Prisma.raw(`DATE_FORMAT(${column}, '%Y-%m-%d')`);
+    case "week":
+      return Prisma.raw(
+        `DATE_FORMAT(DATE_SUB(${column}, INTERVAL WEEKDAY(${column}) DAY), '%Y-%m-%d')`
+      );
+    case "month":
+      return Prisma.raw(`DATE_FORMAT(${column}, '%Y-%m-01')`);
+  }
+}
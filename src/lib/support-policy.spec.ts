@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import semver from "semver";
+import { getAppDefinition, type AppDefinition } from "./apps.js";
+import type { StableRelease } from "./releases.js";
+import {
+  resolveFullyRolledOutReleases,
+  rolloutOverrideKey,
+  setRolloutOverrides,
+  type RolloutOverride,
+} from "./rollout.js";
+import { getBranchSupport, setBranchPolicies } from "./support-policy.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.now();
+
+// Companion supports its 2 newest minor branches
+const app = getAppDefinition("companion") as AppDefinition;
+
+function createRelease(version: string, ageDays: number): StableRelease {
+  return {
+    version: semver.parse(version) as semver.SemVer,
+    publishedAt: new Date(NOW - ageDays * DAY_MS),
+    title: null,
+    body: null,
+  };
+}
+
+function isSupported(
+  version: string,
+  releases: StableRelease[],
+  now: number = NOW
+): boolean {
+  const releaseSet = { stableReleases: releases, latestBetas: {} };
+  const rolledOut = resolveFullyRolledOutReleases(app.name, releaseSet);
+  const available = rolledOut ?? {
+    currentStable: releases[releases.length - 1].version,
+    stableReleases: releases,
+  };
+
+  return getBranchSupport(
+    app,
+    semver.parse(version) as semver.SemVer,
+    rolledOut,
+    available,
+    now
+  ).supported;
+}
+
+describe("branch support", () => {
+  afterEach(() => {
+    setBranchPolicies([]);
+    setRolloutOverrides(new Map());
+  });
+
+  const releases = [
+    createRelease("4.2.0", 30),
+    createRelease("4.1.3", 60),
+    createRelease("4.0.5", 120),
+  ];
+
+  it("supports the newest minor branches", () => {
+    assert.equal(isSupported("4.2.0", releases), true);
+    assert.equal(isSupported("4.1.1", releases), true);
+    assert.equal(isSupported("4.0.5", releases), false);
+  });
+
+  it("keeps supporting the oldest branch while a new minor is rolled out", () => {
+    const withNewMinor = [createRelease("4.3.0", 0.1), ...releases];
+    assert.equal(isSupported("4.1.3", withNewMinor), true);
+  });
+
+  it("keeps supporting the oldest branch when a new minor is halted", () => {
+    const withNewMinor = [createRelease("4.3.0", 30), ...releases];
+    setRolloutOverrides(
+      new Map<string, RolloutOverride>([
+        [
+          rolloutOverrideKey(app.name, "4.3.0"),
+          { state: "HALTED", pausedPercentage: null },
+        ],
+      ])
+    );
+    assert.equal(isSupported("4.1.3", withNewMinor), true);
+  });
+
+  it("ends the support of the oldest branch once a new minor has reached everyone", () => {
+    const withNewMinor = [createRelease("4.3.0", 30), ...releases];
+    assert.equal(isSupported("4.1.3", withNewMinor), false);
+  });
+
+  it("supports versions ahead of the current stable", () => {
+    assert.equal(isSupported("4.3.0-beta.1", releases), true);
+  });
+
+  it("supports lts branches until their end of life", () => {
+    setBranchPolicies([
+      {
+        app_name: app.name,
+        branch: "4.0",
+        lts: true,
+        end_of_life: new Date(NOW + DAY_MS),
+      },
+    ]);
+    assert.equal(isSupported("4.0.5", releases), true);
+    assert.equal(isSupported("4.0.5", releases, NOW + 2 * DAY_MS), false);
+  });
+});
@@ -0,0 +1,95 @@
+import semver, { type SemVer } from "semver";
+import type { BranchSupportPolicy } from "../prisma/client.js";
+import type { AppDefinition } from "./apps.js";
+import type { LatestReleases } from "./releases.js";
+
+/**
+ * Which minor branches (eg `4.1`) of an app are supported.
+ * The support terms of specific branches are managed by the operators, see `setBranchPolicies`
+ */
+export interface SupportPolicy {
+  /** Number of the newest minor branches which are supported, including the branch of the current stable */
+  supportedMinorBranches: number;
+}
+
+/**
+ * Support terms of a specific branch, extending or limiting the support given by `supportedMinorBranches`
+ */
+export type BranchPolicy = Pick<
+  BranchSupportPolicy,
+  "app_name" | "branch" | "lts" | "end_of_life"
+>;
+
+/** Branch policies keyed by `${app_name}@${branch}` */
+let branchPolicies = new Map<string, BranchPolicy>();
+
+export function setBranchPolicies(policies: BranchPolicy[]): void {
+  branchPolicies = new Map(
+    policies.map((p) => [branchPolicyKey(p.app_name, p.branch), p])
+  );
+}
+
+function branchPolicyKey(appName: string, branch: string): string {
+  return `${appName}@${branch}`;
+}
+
+export interface BranchSupport {
+  /** The minor branch of the version, eg `4.1` */
+  branch: string;
+  supported: boolean;
+  lts: boolean;
+  /** When the branch stops (or stopped) being supported, if that is planned */
+  endOfLife: Date | null;
+  /** The newest release of the branch available to the installation */
+  latestRelease: SemVer | null;
+}
+
+export function getBranchName(version: SemVer): string {
+  return `${version.major}.${version.minor}`;
+}
+
+/**
+ * Determine whether the branch of a version is supported, according to the support policy of the app
+ * @param rolledOutReleases The releases rolled out to every installation, which decide the newest branches, or null when there are none yet.
+ * Releases still being rolled out or halted are left out, so that publishing a new minor doesn't end the support of the oldest branch until it has reached everyone
+ * @param latestReleases The releases available to the installation
+ */
+export function getBranchSupport(
+  app: AppDefinition,
+  version: SemVer,
+  rolledOutReleases: Pick<LatestReleases, "stableReleases"> | null,
+  latestReleases: Pick<LatestReleases, "currentStable" | "stableReleases">,
+  now: number = Date.now()
+): BranchSupport {
+  const branch = getBranchName(version);
+  const policy = branchPolicies.get(branchPolicyKey(app.name, branch));
+
+  const endOfLife = policy?.end_of_life ?? null;
+  const lts = !!policy?.lts;
+
+  // The releases are sorted highest first, so the branches are too
+  const recentBranches = Array.from(
+    new Set(
+      rolledOutReleases?.stableReleases.map((r) => getBranchName(r.version))
+    )
+  ).slice(0, app.supportPolicy.supportedMinorBranches);
+
+  // Versions ahead of the current stable (eg a beta of the next minor) are always within the supported branches.
+  // Until a release has reached everyone, no branch is considered outdated
+  const isRecent =
+    !rolledOutReleases ||
+    recentBranches.includes(branch) ||
+    semver.gt(version, latestReleases.currentStable, { loose: true });
+  const isEndOfLife = !!endOfLife && endOfLife.getTime() <= now;
+
+  return {
+    branch,
+    supported: !isEndOfLife && (isRecent || lts),
+    lts,
+    endOfLife,
+    latestRelease:
+      latestReleases.stableReleases.find(
+        (r) => getBranchName(r.version) === branch
+      )?.version ?? null,
+  };
+}
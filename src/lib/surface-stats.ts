@@ -0,0 +1,243 @@
+import { Prisma, type PrismaClient } from "../prisma/client.js";
+import {
+  formatStatsDay,
+  getStatsPeriodSql,
+  type StatsGrouping,
+  type StatsRange,
+} from "./stats.js";
+import { getRetentionCutoff } from "./retention.js";
+import { splitUsageRange } from "./usage-rollup.js";
+
+export interface SurfaceUsagePeriod {
+  /** First day of the period, as `yyyy-mm-dd` */
+  period: string;
+  /** Distinct installations which used the surfaces during the period */
+  installations: number;
+  /** Number of surfaces connected to those installations */
+  devices: number;
+  /** Number of distinct serial numbers, counting a surface used by multiple installations once */
+  uniqueDevices?: number;
+}
+
+export interface SurfaceUsageSeries {
+  /** The surface module, or normalized description of the model */
+  name: string;
+  periods: SurfaceUsagePeriod[];
+}
+
+export interface SurfaceDeviceTotals {
+  description: string;
+  installations: number;
+  devices: number;
+  uniqueDevices: number;
+}
+
+type CountValue = bigint | number | Prisma.Decimal | null;
+
+interface SurfaceUsageRow {
+  name: string;
+  period: string;
+  installations: CountValue;
+  devices: CountValue;
+  unique_devices?: CountValue;
+}
+
+/**
+ * Report the usage of each surface module over a date range, per period.
+ * Periods whose daily rows have been pruned are read from the rollups
+ */
+export async function getSurfaceModuleUsage(
+  prisma: PrismaClient,
+  range: StatsRange,
+  grouping: StatsGrouping
+): Promise<SurfaceUsageSeries[]> {
+  const split = splitUsageRange(range, grouping);
+
+  const rows: SurfaceUsageRow[] = [];
+  if (split.rollup) {
+    const rollups = await prisma.surfaceUsageRollup.findMany({
+      where: {
+        period: split.rollup.period,
+        period_start: { gte: split.rollup.from, lte: split.rollup.to },
+      },
+      orderBy: [{ module_name: "asc" }, { period_start: "asc" }],
+    });
+    rows.push(
+      ...rollups.map((r) => ({
+        name: r.module_name,
+        period: formatStatsDay(r.period_start),
+        installations: r.installations,
+        devices: r.devices_sum,
+      }))
+    );
+  }
+
+  if (split.daily) {
+    const period = getStatsPeriodSql(grouping, "d.date");
+
+    // Each installation is counted once per period, with the most surfaces it had on any day
+    rows.push(
+      ...(await prisma.$queryRaw<SurfaceUsageRow[]>`
+        SELECT u.module_name AS name, u.period, COUNT(*) AS installations, SUM(u.max_count) AS devices
+        FROM (
+          SELECT d.module_name, ${period} AS period, d.user_id, MAX(d.max_count) AS max_count
+          FROM SurfaceDailyUsage d
+          WHERE d.date >= ${split.daily.from} AND d.date <= ${split.daily.to}
+          GROUP BY d.module_name, period, d.user_id
+        ) u
+        GROUP BY u.module_name, u.period
+        ORDER BY u.module_name, u.period
+      `)
+    );
+  }
+
+  return groupSeries(rows);
+}
+
+/**
+ * Report the usage of each model of surface over a date range, per period.
+ * Periods whose daily rows have been pruned are read from the rollups
+ * @param moduleName Only report the models of this surface module
+ */
+export async function getSurfaceModelUsage(
+  prisma: PrismaClient,
+  range: StatsRange,
+  grouping: StatsGrouping,
+  moduleName: string | undefined
+): Promise<SurfaceUsageSeries[]> {
+  const split = splitUsageRange(range, grouping);
+
+  const rows: SurfaceUsageRow[] = [];
+  if (split.rollup) {
+    const where = {
+      period: split.rollup.period,
+      period_start: { gte: split.rollup.from, lte: split.rollup.to },
+    };
+    // The distinct counts can't be combined across the surface modules, so those are rolled up separately
+    const rollups = moduleName
+      ? await prisma.surfaceModelUsageRollup.findMany({
+          where: { ...where, module_name: moduleName },
+          orderBy: [{ surface_description: "asc" }, { period_start: "asc" }],
+        })
+      : await prisma.surfaceModelTotalUsageRollup.findMany({
+          where,
+          orderBy: [{ surface_description: "asc" }, { period_start: "asc" }],
+        });
+    rows.push(
+      ...rollups.map((r) => ({
+        name: r.surface_description,
+        period: formatStatsDay(r.period_start),
+        installations: r.installations,
+        devices: r.devices,
+        unique_devices: r.unique_devices,
+      }))
+    );
+  }
+
+  if (split.daily) {
+    const period = getStatsPeriodSql(grouping, "d.date");
+    const moduleCondition = moduleName
+      ? Prisma.sql`AND d.module_name = ${moduleName}`
+      : Prisma.empty;
+
+    rows.push(
+      ...(await prisma.$queryRaw<SurfaceUsageRow[]>`
+        SELECT d.surface_description AS name, ${period} AS period,
+          COUNT(DISTINCT d.user_id) AS installations,
+          COUNT(DISTINCT d.user_id, d.module_name, d.surface_serial) AS devices,
+          COUNT(DISTINCT NULLIF(d.surface_serial, '')) AS unique_devices
+        FROM SurfaceDeviceDailyUsage d
+        WHERE d.date >= ${split.daily.from} AND d.date <= ${split.daily.to} ${moduleCondition}
+        GROUP BY d.surface_description, period
+        ORDER BY d.surface_description, period
+      `)
+    );
+  }
+
+  return groupSeries(rows);
+}
+
+/**
+ * Count the surfaces seen recently, per model
+ * @param since Only count surfaces seen since this time
+ * @param moduleName Only count the surfaces of this surface module
+ * @returns The counts, and when `since` is older than the retention of the last seen rows, the first time which is counted
+ */
+export async function getSurfaceDeviceTotals(
+  prisma: PrismaClient,
+  since: Date,
+  moduleName: string | undefined
+): Promise<{
+  uniqueDevices: number;
+  models: SurfaceDeviceTotals[];
+  truncatedFrom: Date | null;
+}> {
+  const moduleCondition = moduleName
+    ? Prisma.sql`AND s.module_name = ${moduleName}`
+    : Prisma.empty;
+
+  const [models, totals] = await Promise.all([
+    prisma.$queryRaw<
+      Array<{
+        description: string;
+        installations: CountValue;
+        devices: CountValue;
+        unique_devices: CountValue;
+      }>
+    >`
+      SELECT s.surface_description AS description,
+        COUNT(DISTINCT s.user_id) AS installations,
+        COUNT(*) AS devices,
+        COUNT(DISTINCT NULLIF(s.surface_serial, '')) AS unique_devices
+      FROM SurfaceUserLastSeen s
+      WHERE s.last_seen >= ${since} ${moduleCondition}
+      GROUP BY s.surface_description
+      ORDER BY unique_devices DESC
+    `,
+    // A serial can be reported with multiple descriptions over time, so the total is counted separately
+    prisma.$queryRaw<Array<{ unique_devices: CountValue }>>`
+      SELECT COUNT(DISTINCT NULLIF(s.surface_serial, '')) AS unique_devices
+      FROM SurfaceUserLastSeen s
+      WHERE s.last_seen >= ${since} ${moduleCondition}
+    `,
+  ]);
+
+  const retentionCutoff = getRetentionCutoff("SurfaceUserLastSeen");
+
+  return {
+    uniqueDevices: Number(totals[0]?.unique_devices ?? 0),
+    models: models.map((row) => ({
+      description: row.description,
+      installations: Number(row.installations ?? 0),
+      devices: Number(row.devices ?? 0),
+      uniqueDevices: Number(row.unique_devices ?? 0),
+    })),
+    truncatedFrom:
+      retentionCutoff && since < retentionCutoff ? retentionCutoff : null,
+  };
+}
+
+function groupSeries(rows: SurfaceUsageRow[]): SurfaceUsageSeries[] {
+  const series = new Map<string, SurfaceUsageSeries>();
+  for (const row of rows) {
+    let entry = series.get(row.name);
+    if (!entry) {
+      entry = { name: row.name, periods: [] };
+      series.set(row.name, entry);
+    }
+
+    entry.periods.push({
+      period: row.period,
+      installations: Number(row.installations ?? 0),
+      devices: Number(row.devices ?? 0),
+      uniqueDevices:
+        row.unique_devices !== undefined
+          ? Number(row.unique_devices ?? 0)
+          : undefined,
+    });
+  }
+
+  return Array.from(series.values()).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { PrismaClient } from "../prisma/client.js";
+
+// Read when the module is loaded
+process.env.USAGE_DAILY_RETENTION_DAYS = "90";
+const { getDailyUsageCutoff, pruneDailyUsage, rollupDailyUsage } = await import(
+  "./usage-rollup.js"
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-06-10T12:00:00Z");
+
+interface Marker {
+  table_name: string;
+  period: string;
+  period_start: Date;
+}
+
+/**
+ * An in-memory stand in for the tables used by the rollup, holding the days which have daily rows
+ */
+function createFakePrisma(days: Date[]) {
+  const dailyRows: Record<string, Date[]> = {
+    ModuleDailyUsage: [...days],
+    SurfaceDailyUsage: [...days],
+    SurfaceDeviceDailyUsage: [...days],
+  };
+  const markers: Marker[] = [];
+
+  const dailyModel = (table: string) => ({
+    aggregate: async () => ({
+      _min: {
+        date:
+          dailyRows[table].length > 0
+            ? new Date(Math.min(...dailyRows[table].map((d) => d.getTime())))
+            : null,
+      },
+    }),
+    deleteMany: async ({
+      where,
+    }: {
+      where: { date: { gte: Date; lt: Date } };
+    }) => {
+      const before = dailyRows[table].length;
+      dailyRows[table] = dailyRows[table].filter(
+        (d) => d < where.date.gte || d >= where.date.lt
+      );
+      return { count: before - dailyRows[table].length };
+    },
+  });
+  const rollupModel = { deleteMany: async () => ({ count: 0 }) };
+
+  const tx = {
+    moduleUsageRollup: rollupModel,
+    surfaceUsageRollup: rollupModel,
+    surfaceModelUsageRollup: rollupModel,
+    surfaceModelTotalUsageRollup: rollupModel,
+    $executeRaw: async () => 0,
+    usageRollupMarker: {
+      findMany: async ({
+        where,
+      }: {
+        where: { table_name: string; period: string };
+      }) =>
+        markers.filter(
+          (m) => m.table_name === where.table_name && m.period === where.period
+        ),
+      create: async ({ data }: { data: Marker }) => {
+        markers.push(data);
+        return { id: markers.length };
+      },
+    },
+  };
+
+  const prisma = {
+    ...tx,
+    moduleDailyUsage: dailyModel("ModuleDailyUsage"),
+    surfaceDailyUsage: dailyModel("SurfaceDailyUsage"),
+    surfaceDeviceDailyUsage: dailyModel("SurfaceDeviceDailyUsage"),
+    $transaction: async (fn: (client: typeof tx) => Promise<void>) => fn(tx),
+  };
+
+  return {
+    prisma: prisma as unknown as PrismaClient,
+    dailyRows,
+    markers,
+  };
+}
+
+function getDays(from: Date, to: Date): Date[] {
+  const days: Date[] = [];
+  for (let t = from.getTime(); t <= to.getTime(); t += DAY_MS) {
+    days.push(new Date(t));
+  }
+  return days;
+}
+
+describe("daily usage rollup", () => {
+  const cutoff = getDailyUsageCutoff(NOW) as Date;
+  const today = new Date("2026-06-10T00:00:00Z");
+
+  it("keeps the daily rows which haven't been rolled up", async () => {
+    const { prisma, dailyRows } = createFakePrisma(
+      getDays(new Date("2026-01-01T00:00:00Z"), today)
+    );
+
+    const deleted = await pruneDailyUsage(prisma, NOW);
+
+    assert.equal(deleted.ModuleDailyUsage, 0);
+    assert.equal(dailyRows.ModuleDailyUsage.length, 161);
+  });
+
+  it("rolls up and then prunes the history when the retention is first enabled", async () => {
+    const { prisma, dailyRows, markers } = createFakePrisma(
+      getDays(new Date("2026-01-01T00:00:00Z"), today)
+    );
+
+    await rollupDailyUsage(prisma, NOW);
+
+    // The periods before the cutoff are rolled up too, as their daily rows still exist
+    assert.ok(
+      markers.some(
+        (m) =>
+          m.table_name === "ModuleDailyUsage" &&
+          m.period === "MONTH" &&
+          m.period_start.getTime() === Date.parse("2026-01-01T00:00:00Z")
+      )
+    );
+    assert.ok(
+      markers.some(
+        (m) =>
+          m.table_name === "ModuleDailyUsage" &&
+          m.period === "WEEK" &&
+          m.period_start.getTime() === Date.parse("2025-12-29T00:00:00Z")
+      )
+    );
+
+    const deleted = await pruneDailyUsage(prisma, NOW);
+
+    assert.ok(deleted.ModuleDailyUsage > 0);
+    assert.ok(dailyRows.ModuleDailyUsage.every((d) => d >= cutoff));
+  });
+
+  it("keeps the days of a week which hasn't been rolled up, even when its month has", async () => {
+    // The week starting 2026-02-23 runs into March
+    const { prisma, dailyRows, markers } = createFakePrisma(
+      getDays(new Date("2026-02-01T00:00:00Z"), today)
+    );
+    await rollupDailyUsage(prisma, NOW);
+
+    const weekStart = Date.parse("2026-02-23T00:00:00Z");
+    markers.splice(
+      markers.findIndex(
+        (m) =>
+          m.table_name === "ModuleDailyUsage" &&
+          m.period === "WEEK" &&
+          m.period_start.getTime() === weekStart
+      ),
+      1
+    );
+
+    await pruneDailyUsage(prisma, NOW);
+
+    assert.deepEqual(
+      dailyRows.ModuleDailyUsage.filter((d) => d < cutoff).map((d) =>
+        d.toISOString().slice(0, 10)
+      ),
+      [
+        "2026-02-23",
+        "2026-02-24",
+        "2026-02-25",
+        "2026-02-26",
+        "2026-02-27",
+        "2026-02-28",
+        "2026-03-01",
+      ]
+    );
+  });
+});
@@ -0,0 +1,386 @@
+import type { Prisma, PrismaClient } from "../prisma/client.js";
+import type { UsageRollupPeriod } from "../prisma/enums.js";
+import * as Sentry from "@sentry/node";
+import { scheduleDaily } from "./schedule.js";
+import {
+  getNextStatsPeriodStart,
+  getStatsPeriodStart,
+  toUtcDay,
+  type StatsGrouping,
+  type StatsRange,
+} from "./stats.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The daily rows must be kept until the month containing them has ended and been rolled up
+const MIN_RETENTION_DAYS = 62;
+
+// Run during the night in Europe, after the previous day has ended everywhere it is reported from
+const ROLLUP_HOUR_UTC = 3;
+
+// Rolling up a month of a busy table can take a while
+const ROLLUP_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+const ROLLUP_PERIODS: Record<UsageRollupPeriod, StatsGrouping> = {
+  WEEK: "week",
+  MONTH: "month",
+};
+
+/**
+ * Parse the number of days the daily usage rows are kept for. When not set, they are kept forever
+ */
+export function parseUsageRetentionDays(
+  value: string | undefined
+): number | null {
+  if (!value) return null;
+
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < MIN_RETENTION_DAYS) {
+    throw new Error(
+      `Invalid usage retention: "${value}", must be at least ${MIN_RETENTION_DAYS} days`
+    );
+  }
+  return days;
+}
+
+const usageRetentionDays = parseUsageRetentionDays(
+  process.env.USAGE_DAILY_RETENTION_DAYS
+);
+
+/**
+ * Get the first day which still has its daily usage rows, or null when they are never pruned
+ */
+export function getDailyUsageCutoff(now: Date = new Date()): Date | null {
+  if (usageRetentionDays === null) return null;
+  return new Date(toUtcDay(now).getTime() - usageRetentionDays * DAY_MS);
+}
+
+export interface SplitUsageRange {
+  /** The periods to read from the rollups, by their first day */
+  rollup: { period: UsageRollupPeriod; from: Date; to: Date } | null;
+  /** The days to read from the daily rows */
+  daily: StatsRange | null;
+  /** Set when the start of the range has been pruned and isn't covered by the rollups, to the first day which can be reported */
+  truncatedFrom: Date | null;
+}
+
+/**
+ * Split a range into the periods to read from the rollups, as some of their daily rows have been pruned, and the days to read from the daily rows.
+ * Periods read from the rollups cover the whole period, even when the range starts part way through it
+ */
+export function splitUsageRange(
+  range: StatsRange,
+  grouping: StatsGrouping,
+  now: Date = new Date()
+): SplitUsageRange {
+  const cutoff = getDailyUsageCutoff(now);
+  if (!cutoff || range.from >= cutoff) {
+    return { rollup: null, daily: range, truncatedFrom: null };
+  }
+
+  const period = getRollupPeriod(grouping);
+  if (!period) {
+    // There are no daily rollups, so only the days which haven't been pruned can be reported
+    return {
+      rollup: null,
+      daily: range.to >= cutoff ? { from: cutoff, to: range.to } : null,
+      truncatedFrom: cutoff,
+    };
+  }
+
+  // The period containing the cutoff has lost some of its daily rows
+  let dailyFrom = getStatsPeriodStart(grouping, cutoff);
+  if (dailyFrom < cutoff)
+    dailyFrom = getNextStatsPeriodStart(grouping, dailyFrom);
+
+  const lastRollupPeriod = new Date(
+    Math.min(range.to.getTime(), dailyFrom.getTime() - DAY_MS)
+  );
+
+  return {
+    rollup: {
+      period,
+      from: getStatsPeriodStart(grouping, range.from),
+      to: lastRollupPeriod,
+    },
+    daily: range.to >= dailyFrom ? { from: dailyFrom, to: range.to } : null,
+    truncatedFrom: null,
+  };
+}
+
+function getRollupPeriod(grouping: StatsGrouping): UsageRollupPeriod | null {
+  for (const [period, periodGrouping] of Object.entries(ROLLUP_PERIODS)) {
+    if (periodGrouping === grouping) return period as UsageRollupPeriod;
+  }
+  return null;
+}
+
+/**
+ * A daily usage table, and how it is rolled up
+ */
+interface DailyUsageTable {
+  name: string;
+  getOldestDay(prisma: PrismaClient): Promise<Date | null>;
+  /** Replace the rollup of a period, from the daily rows in `[start, end)` */
+  writeRollup(
+    tx: Prisma.TransactionClient,
+    period: UsageRollupPeriod,
+    start: Date,
+    end: Date,
+    complete: boolean
+  ): Promise<void>;
+  /** Delete the daily rows in `[start, end)` */
+  prune(prisma: PrismaClient, start: Date, end: Date): Promise<number>;
+}
+
+const DAILY_USAGE_TABLES: DailyUsageTable[] = [
+  {
+    name: "ModuleDailyUsage",
+    getOldestDay: async (prisma) =>
+      (await prisma.moduleDailyUsage.aggregate({ _min: { date: true } }))._min
+        .date,
+    writeRollup: async (tx, period, start, end, complete) => {
+      await tx.moduleUsageRollup.deleteMany({
+        where: { period, period_start: start },
+      });
+      await tx.$executeRaw`
+        INSERT INTO ModuleUsageRollup (period, period_start, module_id, installations, instances_sum, instances_max, complete)
+        SELECT ${period}, ${start}, u.module_id, COUNT(*), SUM(u.max_count), MAX(u.max_count), ${complete}
+        FROM (
+          SELECT d.module_id, d.user_id, MAX(d.max_count) AS max_count
+          FROM ModuleDailyUsage d
+          WHERE d.date >= ${start} AND d.date < ${end}
+          GROUP BY d.module_id, d.user_id
+        ) u
+        GROUP BY u.module_id
+      `;
+    },
+    prune: async (prisma, start, end) =>
+      (
+        await prisma.moduleDailyUsage.deleteMany({
+          where: { date: { gte: start, lt: end } },
+        })
+      ).count,
+  },
+  {
+    name: "SurfaceDailyUsage",
+    getOldestDay: async (prisma) =>
+      (await prisma.surfaceDailyUsage.aggregate({ _min: { date: true } }))._min
+        .date,
+    writeRollup: async (tx, period, start, end, complete) => {
+      await tx.surfaceUsageRollup.deleteMany({
+        where: { period, period_start: start },
+      });
+      await tx.$executeRaw`
+        INSERT INTO SurfaceUsageRollup (period, period_start, module_name, installations, devices_sum, devices_max, complete)
+        SELECT ${period}, ${start}, u.module_name, COUNT(*), SUM(u.max_count), MAX(u.max_count), ${complete}
+        FROM (
+          SELECT d.module_name, d.user_id, MAX(d.max_count) AS max_count
+          FROM SurfaceDailyUsage d
+          WHERE d.date >= ${start} AND d.date < ${end}
+          GROUP BY d.module_name, d.user_id
+        ) u
+        GROUP BY u.module_name
+      `;
+    },
+    prune: async (prisma, start, end) =>
+      (
+        await prisma.surfaceDailyUsage.deleteMany({
+          where: { date: { gte: start, lt: end } },
+        })
+      ).count,
+  },
+  {
+    name: "SurfaceDeviceDailyUsage",
+    getOldestDay: async (prisma) =>
+      (await prisma.surfaceDeviceDailyUsage.aggregate({ _min: { date: true } }))
+        ._min.date,
+    writeRollup: async (tx, period, start, end, complete) => {
+      await tx.surfaceModelUsageRollup.deleteMany({
+        where: { period, period_start: start },
+      });
+      await tx.$executeRaw`
+        INSERT INTO SurfaceModelUsageRollup (period, period_start, module_name, surface_description, installations, devices, unique_devices, complete)
+        SELECT ${period}, ${start}, d.module_name, d.surface_description,
+          COUNT(DISTINCT d.user_id),
+          COUNT(DISTINCT d.user_id, d.surface_serial),
+          COUNT(DISTINCT NULLIF(d.surface_serial, '')),
+          ${complete}
+        FROM SurfaceDeviceDailyUsage d
+        WHERE d.date >= ${start} AND d.date < ${end}
+        GROUP BY d.module_name, d.surface_description
+      `;
+
+      await tx.surfaceModelTotalUsageRollup.deleteMany({
+        where: { period, period_start: start },
+      });
+      await tx.$executeRaw`
+        INSERT INTO SurfaceModelTotalUsageRollup (period, period_start, surface_description, installations, devices, unique_devices, complete)
+        SELECT ${period}, ${start}, d.surface_description,
+          COUNT(DISTINCT d.user_id),
+          COUNT(DISTINCT d.user_id, d.module_name, d.surface_serial),
+          COUNT(DISTINCT NULLIF(d.surface_serial, '')),
+          ${complete}
+        FROM SurfaceDeviceDailyUsage d
+        WHERE d.date >= ${start} AND d.date < ${end}
+        GROUP BY d.surface_description
+      `;
+    },
+    prune: async (prisma, start, end) =>
+      (
+        await prisma.surfaceDeviceDailyUsage.deleteMany({
+          where: { date: { gte: start, lt: end } },
+        })
+      ).count,
+  },
+];
+
+/**
+ * Get the start of the periods of a table which have been rolled up after they ended
+ */
+async function getCompletePeriods(
+  prisma: PrismaClient,
+  table: DailyUsageTable,
+  period: UsageRollupPeriod
+): Promise<Set<number>> {
+  const markers = await prisma.usageRollupMarker.findMany({
+    where: { table_name: table.name, period },
+    select: { period_start: true },
+  });
+  return new Set(markers.map((m) => m.period_start.getTime()));
+}
+
+/**
+ * Roll up the daily usage into the weekly and monthly summaries.
+ * Periods which had already ended when they were last rolled up are skipped, the others are rolled up again
+ */
+export async function rollupDailyUsage(
+  prisma: PrismaClient,
+  now: Date = new Date()
+): Promise<void> {
+  const today = toUtcDay(now);
+
+  for (const table of DAILY_USAGE_TABLES) {
+    const oldestDay = await table.getOldestDay(prisma);
+    if (!oldestDay) continue;
+
+    for (const [period, grouping] of Object.entries(ROLLUP_PERIODS) as Array<
+      [UsageRollupPeriod, StatsGrouping]
+    >) {
+      const completePeriods = await getCompletePeriods(prisma, table, period);
+
+      let rolledUp = 0;
+      for (
+        let start = getStatsPeriodStart(grouping, oldestDay);
+        start <= today;
+        start = getNextStatsPeriodStart(grouping, start)
+      ) {
+        // The daily rows are only pruned once their periods are complete, so any other period still has all of its rows
+        if (completePeriods.has(start.getTime())) continue;
+
+        const end = getNextStatsPeriodStart(grouping, start);
+        const complete = end <= today;
+        await prisma.$transaction(
+          async (tx) => {
+            await table.writeRollup(tx, period, start, end, complete);
+            if (complete) {
+              await tx.usageRollupMarker.create({
+                data: {
+                  table_name: table.name,
+                  period,
+                  period_start: start,
+                },
+                select: { id: true },
+              });
+            }
+          },
+          { timeout: ROLLUP_TRANSACTION_TIMEOUT_MS }
+        );
+        rolledUp++;
+      }
+
+      console.log(
+        "Rolled up %d %s periods of %s",
+        rolledUp,
+        period,
+        table.name
+      );
+    }
+  }
+}
+
+/**
+ * Delete the daily usage rows older than the retention, once the week and month containing them have been rolled up
+ * @returns The number of rows deleted from each table
+ */
+export async function pruneDailyUsage(
+  prisma: PrismaClient,
+  now: Date = new Date()
+): Promise<Record<string, number>> {
+  const deleted: Record<string, number> = {};
+
+  const cutoff = getDailyUsageCutoff(now);
+  if (!cutoff) return deleted;
+
+  for (const table of DAILY_USAGE_TABLES) {
+    deleted[table.name] = 0;
+
+    const oldestDay = await table.getOldestDay(prisma);
+    if (!oldestDay) continue;
+
+    const completeWeeks = await getCompletePeriods(prisma, table, "WEEK");
+    const completeMonths = await getCompletePeriods(prisma, table, "MONTH");
+
+    // Deleted a day at a time, to avoid locking the table for too long
+    for (
+      let day = toUtcDay(oldestDay);
+      day < cutoff;
+      day = new Date(day.getTime() + DAY_MS)
+    ) {
+      // Kept until the rollups have been written, eg when the retention is first enabled on existing rows
+      if (
+        !completeWeeks.has(
+          getStatsPeriodStart(ROLLUP_PERIODS.WEEK, day).getTime()
+        ) ||
+        !completeMonths.has(
+          getStatsPeriodStart(ROLLUP_PERIODS.MONTH, day).getTime()
+        )
+      ) {
+        continue;
+      }
+
+      deleted[table.name] += await table.prune(
+        prisma,
+        day,
+        new Date(day.getTime() + DAY_MS)
+      );
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Roll up and prune the daily usage now, and then every night
+ */
+export function startUsageRollup(prisma: PrismaClient): void {
+  const doRollup = async () => {
+    try {
+      await rollupDailyUsage(prisma);
+
+      // Only pruned once the rollups are known to be up to date
+      const deleted = await pruneDailyUsage(prisma);
+      if (Object.keys(deleted).length > 0) {
+        console.log("Pruned daily usage:", deleted);
+      }
+    } catch (err) {
+      console.error("Error rolling up daily usage:", err);
+      Sentry.captureException(err, {});
+    }
+  };
+
+  scheduleDaily(ROLLUP_HOUR_UTC, doRollup);
+
+  // Not awaited, as the rollups are not needed for startup
+  doRollup();
+}
@@ -2,6 +2,8 @@ import type { DetailedUsageFeaturesType } from "../detailed-usage.js";
 import type { CompanionFeatures, PrismaClient } from "../prisma/client.js";
 import type { UpdatesBodyType } from "../update.js";
 import type { Complete } from "./types.js";
+import { getAppDefinition } from "./apps.js";
+import { getBuildInfoColumns, parseBuildInfo } from "./build-info.js";
 
 export async function writeFeatureUsageData(
   prisma: PrismaClient,
@@ -12,7 +14,8 @@ export async function writeFeatureUsageData(
 ): Promise<boolean> {
   // Implement the logic to write usage data to your desired location
 
-  if (app.name !== "companion") {
+  const appDefinition = getAppDefinition(app.name);
+  if (app.name !== "companion" || !appDefinition) {
     throw new Error("Feature usage can only be recorded for Companion app");
   }
 
@@ -23,6 +26,7 @@ export async function writeFeatureUsageData(
 
     app_version: app.version,
     app_build: app.build,
+    ...getBuildInfoColumns(parseBuildInfo(appDefinition, app.build)),
 
     os_platform: os.platform,
     os_release: os.release,
@@ -35,6 +35,7 @@ async function writeModuleVersionUsage(
 ): Promise<boolean> {
   // If no connections, nothing to do.
   // It doesn't make sense to purge the last-seen data, as we do want to keep knowledge if they used it yesterday.
+  // Rows which haven't been seen for a long time are removed by the retention job instead.
   // For the detailed usage, we won't decrease the max_counts either.
   if (!connections || connections.length === 0) return true;
 
@@ -10,15 +10,17 @@ export async function writeSurfacesUsage(
 ): Promise<boolean> {
   // If no surfaces, nothing to do.
   // It doesn't make sense to purge the last-seen data, as we do want to keep knowledge if they used it yesterday.
+  // Rows which haven't been seen for a long time are removed by the retention job instead.
   // For the detailed usage, we won't decrease the max_counts either.
   if (!surfaces || surfaces.length === 0) return true;
 
-  const [usageOk, lastSeenOk] = await Promise.all([
+  const [usageOk, devicesOk, lastSeenOk] = await Promise.all([
     writeSurfacesDailyUsage(prisma, machineId, surfaces),
+    writeSurfaceDevicesDailyUsage(prisma, machineId, surfaces),
     writeSurfacesLastSeen(prisma, machineId, surfaces),
   ]);
 
-  return usageOk && lastSeenOk;
+  return usageOk && devicesOk && lastSeenOk;
 }
 
 async function writeSurfacesDailyUsage(
@@ -109,6 +111,78 @@ async function writeSurfacesDailyUsage(
   }
 }
 
+async function writeSurfaceDevicesDailyUsage(
+  prisma: PrismaClient,
+  machineId: string,
+  surfaces: DetailedUsageSurfaceType[]
+) {
+  const now = new Date();
+  const utcDay = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  ); // midnight UTC
+
+  let ok = true;
+
+  // Record each device once per day, so that the models in use can be reported over time
+  await prisma
+    .$transaction(
+      async (tx) => {
+        // Do in series to minimise connection usage
+        for (const surface of surfaces) {
+          try {
+            const safeModuleName = surface.moduleId.slice(0, 128); // Trim to fit DB
+            const safeSerial = surface.id.slice(0, 64); // Trim to fit DB
+            const safeDescription = translateDescription(
+              surface.description
+            ).slice(0, 128); // Trim to fit DB
+
+            await tx.surfaceDeviceDailyUsage.upsert({
+              where: {
+                date_user_device: {
+                  date: utcDay,
+                  user_id: machineId,
+                  module_name: safeModuleName,
+                  surface_serial: safeSerial,
+                },
+              },
+              update: {
+                surface_description: safeDescription,
+              },
+              create: {
+                date: utcDay,
+                user_id: machineId,
+                module_name: safeModuleName,
+                surface_serial: safeSerial,
+                surface_description: safeDescription,
+              },
+              select: { id: true },
+            });
+          } catch (e) {
+            ok = false;
+
+            Sentry.captureException(e, {
+              extra: { surface },
+            });
+          }
+        }
+      },
+      {
+        timeout: 10000, // High timeout, due to number of operations
+      }
+    )
+    .catch((e) => {
+      ok = false;
+
+      Sentry.captureException(e, {
+        extra: {
+          surfaces,
+        },
+      });
+    });
+
+  return ok;
+}
+
 async function writeSurfacesLastSeen(
   prisma: PrismaClient,
   machineId: string,
@@ -0,0 +1,109 @@
+import type { UpdateAdvice, UpdatesBodyType } from "../update.js";
+import type { PrismaClient } from "../prisma/client.js";
+import { resolveAppName } from "./apps.js";
+
+/**
+ * Record the advice given to an installation.
+ * When the installation is running a different version to when it was last advised, that advice is considered to have been acted on.
+ * Concurrent checks from the same installation are recorded once
+ */
+export async function writeUpdateAdvice(
+  prisma: PrismaClient,
+  userInfo: UpdatesBodyType,
+  advice: UpdateAdvice
+): Promise<void> {
+  const now = new Date();
+  const utcDay = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  ); // midnight UTC
+
+  // Trim to fit DB
+  const userId = userInfo.id.slice(0, 64);
+  const appName = resolveAppName(userInfo.app.name).slice(0, 16);
+  const appVersion = userInfo.app.version.slice(0, 16);
+  const targetVersion = advice.targetVersion?.slice(0, 32) ?? null;
+
+  const previous = await prisma.installationUpdateAdvice.findUnique({
+    where: {
+      user_id_app_name: {
+        user_id: userId,
+        app_name: appName,
+      },
+    },
+  });
+
+  const isSameAdvice =
+    !!previous &&
+    previous.app_version === appVersion &&
+    previous.advice === advice.kind &&
+    previous.target_version === targetVersion;
+
+  const newAdvice = {
+    app_version: appVersion,
+    advice: advice.kind,
+    target_version: targetVersion,
+    first_advised_at: now,
+    last_advised_at: now,
+  };
+
+  // Only the write which replaces the previous advice records it, in case the installation checks more than once at the same time
+  const { count } = previous
+    ? await prisma.installationUpdateAdvice.updateMany({
+        where: {
+          user_id: userId,
+          app_name: appName,
+          last_advised_at: previous.last_advised_at,
+        },
+        data: isSameAdvice ? { last_advised_at: now } : newAdvice,
+      })
+    : await prisma.installationUpdateAdvice.createMany({
+        data: [{ user_id: userId, app_name: appName, ...newAdvice }],
+        skipDuplicates: true,
+      });
+  if (count === 0) return;
+
+  if (previous && previous.app_version !== appVersion) {
+    await prisma.updateAdviceAction.create({
+      data: {
+        app_name: appName,
+        advice: previous.advice,
+        target_version: previous.target_version,
+        from_version: previous.app_version,
+        to_version: appVersion,
+        advised_at: previous.first_advised_at,
+        acted_at: now,
+        seconds_to_act: Math.round(
+          (now.getTime() - previous.first_advised_at.getTime()) / 1000
+        ),
+      },
+      select: { id: true },
+    });
+  }
+
+  // Count each installation once per day, under the first advice it is given that day, however often it checks or its advice changes
+  if (!previous || previous.last_advised_at < utcDay) {
+    await prisma.updateAdviceDailyUsage.upsert({
+      where: {
+        date_app_advice: {
+          date: utcDay,
+          app_name: appName,
+          app_version: appVersion,
+          advice: advice.kind,
+          target_version: targetVersion ?? "",
+        },
+      },
+      update: {
+        installations: { increment: 1 },
+      },
+      create: {
+        date: utcDay,
+        app_name: appName,
+        app_version: appVersion,
+        advice: advice.kind,
+        target_version: targetVersion ?? "",
+        installations: 1,
+      },
+      select: { id: true },
+    });
+  }
+}
@@ -0,0 +1,30 @@
+import type { YankedRelease } from "../prisma/client.js";
+
+export type ActiveYankedRelease = Pick<
+  YankedRelease,
+  "app_name" | "version" | "reason" | "replacement_version"
+>;
+
+/** Yanked releases keyed by `${app_name}@${version}` */
+let yankedReleases = new Map<string, ActiveYankedRelease>();
+
+export function setYankedReleases(releases: ActiveYankedRelease[]): void {
+  yankedReleases = new Map(
+    releases.map((r) => [yankedReleaseKey(r.app_name, r.version), r])
+  );
+}
+
+function yankedReleaseKey(appName: string, version: string): string {
+  return `${appName}@${version}`;
+}
+
+/**
+ * Find the yank of a release
+ * @param version The release version, without build metadata or leading `v`
+ */
+export function findYankedRelease(
+  appName: string,
+  version: string
+): ActiveYankedRelease | null {
+  return yankedReleases.get(yankedReleaseKey(appName, version)) ?? null;
+}
@@ -8,6 +8,42 @@ import { PrismaMariaDb } from "@prisma/adapter-mariadb";
 import * as Sentry from "@sentry/node";
 import { registerDetailedUsageRoutes } from "./detailed-usage.js";
 import { registerOldMetricsRoutes } from "./old-metrics.js";
+import { registerReleaseRoutes } from "./releases.js";
+import { registerWebhookRoutes } from "./webhooks.js";
+import { registerVersionHistoryRoutes } from "./version-history.js";
+import { registerModuleStatsRoutes } from "./module-stats.js";
+import { registerSurfaceStatsRoutes } from "./surface-stats.js";
+import { registerFeatureStatsRoutes } from "./feature-stats.js";
+import { registerActiveInstallationRoutes } from "./active-installations.js";
+import { registerRetentionRoutes } from "./retention.js";
+import { registerErasureRoutes } from "./erasure.js";
+import { registerStatsExportRoutes } from "./stats-export.js";
+import { registerAdminAuth } from "./lib/admin-auth.js";
+import { startActiveInstallationSnapshots } from "./lib/active-installations.js";
+import { startUsageRollup } from "./lib/usage-rollup.js";
+import { startRetention } from "./lib/retention.js";
+import { startReleasesRefresh } from "./lib/releases.js";
+import { createReleaseProvider } from "./lib/release-providers/index.js";
+import {
+  registerRolloutRoutes,
+  startRolloutOverridesRefresh,
+} from "./rollout.js";
+import {
+  registerAnnouncementRoutes,
+  startAnnouncementsRefresh,
+} from "./announcements.js";
+import {
+  registerSecurityAdvisoryRoutes,
+  startSecurityAdvisoriesRefresh,
+} from "./security-advisories.js";
+import {
+  registerYankedReleaseRoutes,
+  startYankedReleasesRefresh,
+} from "./yanked-releases.js";
+import {
+  registerSupportPolicyRoutes,
+  startBranchPoliciesRefresh,
+} from "./support-policy.js";
 
 const connectionString = process.env.DATABASE_URL;
 if (!connectionString) {
@@ -48,10 +84,44 @@ app.instance.get("/", (_request, reply) => {
   reply.redirect("https://companion.free");
 });
 
+// Protect the admin routes
+registerAdminAuth(app);
+
 // Register routes
 registerUpdateRoutes(app, prisma);
 registerDetailedUsageRoutes(app, prisma);
 registerOldMetricsRoutes(app, prisma);
+registerReleaseRoutes(app);
+registerWebhookRoutes(app);
+registerVersionHistoryRoutes(app, prisma);
+registerModuleStatsRoutes(app, prisma);
+registerSurfaceStatsRoutes(app, prisma);
+registerFeatureStatsRoutes(app, prisma);
+registerActiveInstallationRoutes(app, prisma);
+registerStatsExportRoutes(app, prisma);
+registerRolloutRoutes(app, prisma);
+registerAnnouncementRoutes(app, prisma);
+registerSecurityAdvisoryRoutes(app, prisma);
+registerYankedReleaseRoutes(app, prisma);
+registerSupportPolicyRoutes(app, prisma);
+registerRetentionRoutes(app, prisma);
+registerErasureRoutes(app, prisma);
+
+// Load the operator managed state and the releases, before any update checks are answered
+// The yanked releases must be known before the releases are loaded, so they can be excluded
+await startYankedReleasesRefresh(prisma);
+await startReleasesRefresh(createReleaseProvider(), prisma);
+await startRolloutOverridesRefresh(prisma);
+await startAnnouncementsRefresh(prisma);
+await startSecurityAdvisoriesRefresh(prisma);
+await startBranchPoliciesRefresh(prisma);
+
+// Record the daily snapshots of the active installations, for the trends
+startActiveInstallationSnapshots(prisma);
+// Roll up and prune the daily usage tables
+startUsageRollup(prisma);
+// Delete the rows which have outlived their retention
+startRetention(prisma);
 
 // Setup graceful shutdown
 app.setupGracefulShutdown();
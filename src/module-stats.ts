@@ -0,0 +1,206 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient } from "./prisma/client.js";
+import { getModuleUsage, type ModuleUsageSeries } from "./lib/module-stats.js";
+import {
+  formatStatsDay,
+  resolveStatsRange,
+  StatsRangeQuery,
+} from "./lib/stats.js";
+import { splitUsageRange } from "./lib/usage-rollup.js";
+
+const ModuleUsagePeriodObject = z.object({
+  period: z.string().describe("First day of the period"),
+  installations: z
+    .number()
+    .describe("Distinct installations which used the module"),
+  instances: z
+    .number()
+    .describe("Total instances of the module across those installations"),
+});
+
+const ModuleStatsQuery = StatsRangeQuery.extend({
+  module_type: z
+    .enum(["CONNECTION", "SURFACE"])
+    .optional()
+    .describe("Only report modules of this type"),
+});
+
+export function registerModuleStatsRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/stats/modules",
+    query: ModuleStatsQuery,
+    response: z.object({
+      ok: z.boolean(),
+      from: z.string(),
+      to: z.string(),
+      truncatedFrom: z
+        .string()
+        .optional()
+        .describe(
+          "Set when the start of the range has been pruned, to the first day which is reported"
+        ),
+      grouping: z.string(),
+      modules: z.array(
+        z.object({
+          type: z.string(),
+          name: z.string(),
+          periods: z.array(ModuleUsagePeriodObject),
+        })
+      ),
+    }),
+    config: {
+      description:
+        "Get the number of installations using each module, and how many instances of it they have",
+      tags: ["Stats"],
+    },
+    handler: async (request) => {
+      const range = resolveStatsRange(request.query.from, request.query.to);
+
+      const series = await getModuleUsage(
+        prisma,
+        range,
+        request.query.grouping,
+        {
+          moduleType: request.query.module_type,
+        }
+      );
+
+      const { truncatedFrom } = splitUsageRange(range, request.query.grouping);
+
+      return {
+        ok: true,
+        from: formatStatsDay(range.from),
+        to: formatStatsDay(range.to),
+        truncatedFrom: truncatedFrom
+          ? formatStatsDay(truncatedFrom)
+          : undefined,
+        grouping: request.query.grouping,
+        modules: series.map((s) => ({
+          type: s.moduleType,
+          name: s.moduleName,
+          periods: s.periods,
+        })),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/stats/modules/:name",
+    params: z.object({
+      name: z.string().describe("Name of the module"),
+    }),
+    query: ModuleStatsQuery,
+    response: z.object({
+      ok: z.boolean(),
+      message: z.string().optional().describe("Reason for a failure"),
+      from: z.string().optional(),
+      to: z.string().optional(),
+      truncatedFrom: z
+        .string()
+        .optional()
+        .describe(
+          "Set when the start of the range has been pruned, to the first day which is reported"
+        ),
+      grouping: z.string().optional(),
+      modules: z
+        .array(
+          z.object({
+            type: z.string(),
+            name: z.string(),
+            periods: z
+              .array(ModuleUsagePeriodObject)
+              .describe("Usage of all versions combined"),
+            versions: z.array(
+              z.object({
+                version: z.string(),
+                periods: z.array(ModuleUsagePeriodObject),
+              })
+            ),
+          })
+        )
+        .optional()
+        .describe("The module, once per type it is used as"),
+    }),
+    config: {
+      description:
+        "Get the number of installations using each version of a module, and how many instances of it they have",
+      tags: ["Stats"],
+    },
+    handler: async (request) => {
+      const range = resolveStatsRange(request.query.from, request.query.to);
+
+      const series = await getModuleUsage(
+        prisma,
+        range,
+        request.query.grouping,
+        {
+          moduleType: request.query.module_type,
+          moduleName: request.params.name,
+        }
+      );
+      if (series.length === 0) {
+        return {
+          ok: false,
+          message: "No usage of the module in this range",
+        };
+      }
+
+      const { truncatedFrom } = splitUsageRange(range, request.query.grouping);
+
+      return {
+        ok: true,
+        from: formatStatsDay(range.from),
+        to: formatStatsDay(range.to),
+        truncatedFrom: truncatedFrom
+          ? formatStatsDay(truncatedFrom)
+          : undefined,
+        grouping: request.query.grouping,
+        modules: groupModuleVersions(series),
+      };
+    },
+  });
+}
+
+/**
+ * Group the per version series of a module under the combined series of each module type
+ */
+function groupModuleVersions(series: ModuleUsageSeries[]) {
+  const modules = new Map<
+    string,
+    {
+      type: string;
+      name: string;
+      periods: ModuleUsageSeries["periods"];
+      versions: Array<{
+        version: string;
+        periods: ModuleUsageSeries["periods"];
+      }>;
+    }
+  >();
+
+  for (const s of series) {
+    let module = modules.get(s.moduleType);
+    if (!module) {
+      module = {
+        type: s.moduleType,
+        name: s.moduleName,
+        periods: [],
+        versions: [],
+      };
+      modules.set(s.moduleType, module);
+    }
+
+    if (s.moduleVersion === null) {
+      module.periods = s.periods;
+    } else {
+      module.versions.push({ version: s.moduleVersion, periods: s.periods });
+    }
+  }
+
+  return Array.from(modules.values());
+}
@@ -0,0 +1,336 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import crypto from "crypto";
+import semver from "semver";
+import {
+  getAllAppDefinitions,
+  getAppDefinition,
+  getBuildChannel,
+  type AppDefinition,
+} from "./lib/apps.js";
+import {
+  getLatestReleases,
+  getReleaseCacheStatus,
+  type StableRelease,
+} from "./lib/releases.js";
+import { resolveFullyRolledOutReleases } from "./lib/rollout.js";
+import { getBranchName, getBranchSupport } from "./lib/support-policy.js";
+
+// Releases older than this are reported as stale, as several refreshes must have failed
+const STALE_AFTER_MS = 30 * 60 * 1000;
+
+const ReleaseCacheStatusObject = z.object({
+  app: z.string().describe("Name of the application"),
+  newestVersion: z
+    .string()
+    .nullable()
+    .describe("Newest stable release, null when no releases are known"),
+  fetchedAt: z
+    .string()
+    .nullable()
+    .describe("When the releases were fetched from the release provider"),
+  ageSeconds: z
+    .number()
+    .nullable()
+    .describe("Time since the releases were fetched"),
+  stale: z
+    .boolean()
+    .describe(
+      "Whether the releases are missing or have not been refreshed recently"
+    ),
+  source: z
+    .enum(["provider", "database"])
+    .nullable()
+    .describe("Where the releases in use were loaded from"),
+  consecutiveFailures: z
+    .number()
+    .describe("Failed fetches since the last successful fetch"),
+  lastError: z
+    .string()
+    .nullable()
+    .describe(
+      "Error of the last failed fetch, which may include internal details"
+    ),
+  nextRefreshAt: z.string().nullable(),
+});
+
+const ReleaseSummaryObject = z.object({
+  version: z.string(),
+  publishedAt: z.string().describe("When the release was published"),
+  link: z.string().describe("Download page of the release"),
+});
+type ReleaseSummary = z.infer<typeof ReleaseSummaryObject>;
+
+const LatestReleasesSummaryObject = z.object({
+  app: z.string().describe("Name of the application"),
+  displayName: z.string(),
+  currentStable: ReleaseSummaryObject.nullable().describe(
+    "Newest stable release, rolled out to everyone"
+  ),
+  oldStable: ReleaseSummaryObject.nullable().describe(
+    "Newest release of the previous supported branch"
+  ),
+  latestBeta: z
+    .object({
+      version: z.string(),
+      buildNumber: z.number(),
+      branch: z.string(),
+      link: z.string(),
+    })
+    .nullable()
+    .describe("Newest beta build, when it is ahead of the current stable"),
+  supportedBranches: z.array(
+    z.object({
+      branch: z.string().describe("The minor branch, eg 4.1"),
+      latestVersion: z.string(),
+      lts: z.boolean(),
+      endOfLife: z.string().nullable(),
+    })
+  ),
+});
+type LatestReleasesSummary = z.infer<typeof LatestReleasesSummaryObject>;
+
+export function registerReleaseRoutes(app: APIServer): void {
+  // These answer conditional requests with a 304, so that clients polling them can do so cheaply
+  app.createEndpoint({
+    method: "GET",
+    url: "/releases/latest",
+    response: z.object({
+      ok: z.boolean(),
+      apps: z
+        .record(z.string(), LatestReleasesSummaryObject)
+        .describe("Summaries keyed by application name"),
+    }),
+    config: {
+      description: "Get the latest releases of every application",
+      tags: ["Releases"],
+    },
+    handler: async (request, reply) => {
+      const summaries = getAllAppDefinitions().map(summarizeLatestReleases);
+
+      return sendCacheable(request, reply, "*", {
+        ok: true,
+        apps: Object.fromEntries(
+          summaries.map((summary) => [summary.app, summary])
+        ),
+      });
+    },
+  });
+
+  app.createEndpoint({
+    method: "GET",
+    url: "/releases/latest/:app",
+    params: z.object({
+      app: z.string().describe("Name of the application"),
+    }),
+    response: z
+      .object({
+        ok: z.boolean(),
+        message: z.string().optional().describe("Reason for a failure"),
+      })
+      .merge(LatestReleasesSummaryObject.partial()),
+    config: {
+      description: "Get the latest releases of an application",
+      tags: ["Releases"],
+    },
+    handler: async (request, reply) => {
+      const appDefinition = getAppDefinition(request.params.app);
+      if (!appDefinition) {
+        reply.code(404);
+        return { ok: false, message: "Unknown application" };
+      }
+
+      const summary = summarizeLatestReleases(appDefinition);
+      if (!summary.currentStable) {
+        // Not fetched yet, clients should try again later
+        reply.code(503);
+        return { ok: false, message: "Releases are not available yet" };
+      }
+
+      return sendCacheable(request, reply, appDefinition.name, {
+        ok: true,
+        ...summary,
+      });
+    },
+  });
+
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/releases/status",
+    response: z.object({
+      ok: z.boolean(),
+      apps: z.array(ReleaseCacheStatusObject),
+    }),
+    config: {
+      description:
+        "Get the age of the releases used to answer update checks, for monitoring",
+      tags: ["Admin"],
+    },
+    handler: async () => {
+      const now = Date.now();
+
+      return {
+        ok: true,
+        apps: getAllAppDefinitions().map((appDefinition) => {
+          const status = getReleaseCacheStatus(appDefinition.name);
+          const releaseSet = getLatestReleases(appDefinition.name);
+          const ageMs = status.fetchedAt
+            ? now - status.fetchedAt.getTime()
+            : null;
+
+          return {
+            app: appDefinition.name,
+            newestVersion:
+              releaseSet?.stableReleases[0]?.version.version ?? null,
+            fetchedAt: status.fetchedAt?.toISOString() ?? null,
+            ageSeconds: ageMs !== null ? Math.floor(ageMs / 1000) : null,
+            stale: !releaseSet || ageMs === null || ageMs > STALE_AFTER_MS,
+            source: status.source,
+            consecutiveFailures: status.consecutiveFailures,
+            lastError: status.lastError,
+            nextRefreshAt: status.nextRefreshAt?.toISOString() ?? null,
+          };
+        }),
+      };
+    },
+  });
+}
+
+/**
+ * Summarise the releases of an app which have been rolled out to everyone
+ */
+function summarizeLatestReleases(app: AppDefinition): LatestReleasesSummary {
+  const summary: LatestReleasesSummary = {
+    app: app.name,
+    displayName: app.displayName,
+    currentStable: null,
+    oldStable: null,
+    latestBeta: null,
+    supportedBranches: [],
+  };
+
+  const releaseSet = getLatestReleases(app.name);
+  const latestReleases =
+    releaseSet && resolveFullyRolledOutReleases(app.name, releaseSet);
+  if (!latestReleases) return summary;
+
+  // The releases are sorted highest first, so the first of each branch is its latest
+  const branchReleases = new Map<string, StableRelease>();
+  for (const release of latestReleases.stableReleases) {
+    const branch = getBranchName(release.version);
+    if (!branchReleases.has(branch)) branchReleases.set(branch, release);
+  }
+
+  const supportedReleases: StableRelease[] = [];
+  for (const [branch, release] of branchReleases) {
+    const support = getBranchSupport(
+      app,
+      release.version,
+      latestReleases,
+      latestReleases
+    );
+    if (!support.supported) continue;
+
+    supportedReleases.push(release);
+    summary.supportedBranches.push({
+      branch,
+      latestVersion: release.version.version,
+      lts: support.lts,
+      endOfLife: support.endOfLife?.toISOString() ?? null,
+    });
+  }
+
+  const formatRelease = (release: StableRelease): ReleaseSummary => ({
+    version: release.version.version,
+    publishedAt: release.publishedAt.toISOString(),
+    link: app.links.stable,
+  });
+
+  summary.currentStable = formatRelease(latestReleases.stableReleases[0]);
+  summary.oldStable = supportedReleases[1]
+    ? formatRelease(supportedReleases[1])
+    : null;
+
+  // The newest build of the beta channel branches, unless the current stable has caught up with it
+  for (const [branch, beta] of Object.entries(latestReleases.latestBetas)) {
+    if (getBuildChannel(branch) !== "beta") continue;
+    if (
+      !semver.gt(beta.version, latestReleases.currentStable, { loose: true })
+    ) {
+      continue;
+    }
+    const newest = summary.latestBeta;
+    if (newest && newest.buildNumber >= beta.buildNumber) continue;
+
+    summary.latestBeta = {
+      version: `${beta.version.version}+${beta.buildNumber}`,
+      buildNumber: beta.buildNumber,
+      branch,
+      link: app.links.beta,
+    };
+  }
+
+  return summary;
+}
+
+/** The last ETag sent for each response, and when it changed */
+const responseVersions = new Map<string, { etag: string; changedAt: Date }>();
+
+/**
+ * Get when a response last changed. This is tracked per instance, so after a restart it is the time of the first response
+ * @param key Identifies the response
+ */
+function getLastModified(key: string, etag: string): Date {
+  const previous = responseVersions.get(key);
+  if (previous?.etag === etag) return previous.changedAt;
+
+  const changedAt = new Date();
+  responseVersions.set(key, { etag, changedAt });
+  return changedAt;
+}
+
+/**
+ * Send a response with ETag and Last-Modified headers, or a 304 if the client already has it
+ * @param key Identifies the response, to track when it last changed
+ */
+function sendCacheable(
+  request: { headers: Record<string, string | string[] | undefined> },
+  reply: {
+    header(name: string, value: string): unknown;
+    code(statusCode: number): unknown;
+    send(): unknown;
+  },
+  key: string,
+  body: object
+) {
+  const etag = `"${crypto
+    .createHash("sha256")
+    .update(JSON.stringify(body))
+    .digest("base64url")
+    .slice(0, 27)}"`;
+  const lastModified = getLastModified(key, etag);
+
+  reply.header("ETag", etag);
+  reply.header("Cache-Control", "public, max-age=60");
+  reply.header("Last-Modified", lastModified.toUTCString());
+
+  // If-None-Match takes precedence over If-Modified-Since
+  const ifNoneMatch = request.headers["if-none-match"];
+  const ifModifiedSince = request.headers["if-modified-since"];
+  const notModified =
+    typeof ifNoneMatch === "string"
+      ? ifNoneMatch.trim() === "*" ||
+        ifNoneMatch
+          .split(",")
+          .some((tag) => tag.trim().replace(/^W\//, "") === etag)
+      : typeof ifModifiedSince === "string" &&
+        // Last-Modified has a resolution of seconds
+        Math.floor(lastModified.getTime() / 1000) * 1000 <=
+          new Date(ifModifiedSince).getTime();
+
+  if (notModified) {
+    reply.code(304);
+    return reply.send();
+  }
+
+  return body;
+}
@@ -0,0 +1,100 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient } from "./prisma/client.js";
+import {
+  getLastRetentionReport,
+  getRetentionPolicies,
+  runRetention,
+} from "./lib/retention.js";
+
+const RetentionReportObject = z.object({
+  dryRun: z.boolean(),
+  startedAt: z.string(),
+  finishedAt: z.string(),
+  tables: z.array(
+    z.object({
+      table: z.string(),
+      ttlDays: z.number(),
+      cutoff: z
+        .string()
+        .describe("Rows last updated before this time are deleted"),
+      rows: z
+        .number()
+        .describe("Rows deleted, or which would be deleted for a dry run"),
+    })
+  ),
+});
+
+export function registerRetentionRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/retention",
+    response: z.object({
+      ok: z.boolean(),
+      policies: z.array(
+        z.object({
+          table: z.string(),
+          envName: z
+            .string()
+            .describe("Environment variable the retention is configured with"),
+          ttlDays: z
+            .number()
+            .nullable()
+            .describe("Days the rows are kept for, null when kept forever"),
+          cutoff: z.string().nullable(),
+        })
+      ),
+      lastRun: RetentionReportObject.nullable().describe(
+        "The last retention run by this instance, excluding dry runs"
+      ),
+    }),
+    config: {
+      description: "Get the retention of each table, and the last run",
+      tags: ["Admin"],
+    },
+    handler: async () => {
+      return {
+        ok: true,
+        policies: getRetentionPolicies(),
+        lastRun: getLastRetentionReport(),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "POST",
+    url: "/admin/retention/run",
+    body: z.object({
+      dryRun: z
+        .boolean()
+        .default(true)
+        .describe("Only count the rows which would be deleted"),
+    }),
+    response: z.object({
+      ok: z.boolean(),
+      report: RetentionReportObject,
+    }),
+    config: {
+      description:
+        "Delete the rows which have outlived their retention now, rather than waiting for the nightly run",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const report = await runRetention(prisma, request.body.dryRun);
+
+      if (!report.dryRun) {
+        console.log(
+          "Retention run manually, deleted: %s",
+          report.tables.map((t) => `${t.table} ${t.rows}`).join(", ")
+        );
+      }
+
+      return {
+        ok: true,
+        report,
+      };
+    },
+  });
+}
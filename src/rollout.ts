@@ -0,0 +1,219 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient } from "./prisma/client.js";
+import * as Sentry from "@sentry/node";
+import { getAllAppDefinitions } from "./lib/apps.js";
+import { getLatestReleases, type StableRelease } from "./lib/releases.js";
+import {
+  getRolloutOverride,
+  getRolloutPercentage,
+  getScheduledRolloutPercentage,
+  rolloutOverrideKey,
+  setRolloutOverrides,
+  type RolloutOverride,
+} from "./lib/rollout.js";
+
+const RolloutStateEnum = z
+  .enum(["ACTIVE", "PAUSED", "HALTED"])
+  .describe(
+    "ACTIVE follows the schedule, PAUSED freezes the current percentage, HALTED offers the release to nobody"
+  );
+
+const RolloutStatus = z.object({
+  app: z.string().describe("Name of the application"),
+  version: z.string().describe("Release version"),
+  publishedAt: z.string().describe("When the release was published"),
+  state: RolloutStateEnum,
+  scheduledPercentage: z
+    .number()
+    .describe(
+      "Percentage of installations offered the release by the schedule"
+    ),
+  effectivePercentage: z
+    .number()
+    .describe(
+      "Percentage of installations offered the release, after any override"
+    ),
+});
+
+const RolloutListResponse = z.object({
+  ok: z.boolean(),
+  rollouts: z
+    .array(RolloutStatus)
+    .describe("Releases which are not fully rolled out, or are overridden"),
+});
+
+const RolloutUpdateResponse = z.object({
+  ok: z.boolean(),
+  message: z.string().optional().describe("Reason for a failure"),
+  rollout: RolloutStatus.optional(),
+});
+
+export function registerRolloutRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/rollout",
+    response: RolloutListResponse,
+    config: {
+      description: "List the staged rollouts of recent releases",
+      tags: ["Admin"],
+    },
+    handler: async () => {
+      const rollouts: z.infer<typeof RolloutStatus>[] = [];
+
+      for (const appDefinition of getAllAppDefinitions()) {
+        const releaseSet = getLatestReleases(appDefinition.name);
+        if (!releaseSet) continue;
+
+        for (const release of releaseSet.stableReleases) {
+          const status = getRolloutStatus(appDefinition.name, release);
+          if (status.effectivePercentage < 100 || status.state !== "ACTIVE") {
+            rollouts.push(status);
+          }
+        }
+      }
+
+      return {
+        ok: true,
+        rollouts,
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "POST",
+    url: "/admin/rollout/:app/:version",
+    params: z.object({
+      app: z.string().describe("Name of the application"),
+      version: z.string().describe("Release version"),
+    }),
+    body: z.object({
+      state: RolloutStateEnum,
+      reason: z
+        .string()
+        .max(255)
+        .optional()
+        .describe("Why the rollout is being changed"),
+    }),
+    response: RolloutUpdateResponse,
+    config: {
+      description: "Pause, halt or resume the staged rollout of a release",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const appName = request.params.app;
+      const version = request.params.version.replace(/^v/, "");
+
+      const release = getLatestReleases(appName)?.stableReleases.find(
+        (r) => r.version.version === version
+      );
+      if (!release) {
+        return {
+          ok: false,
+          message: "Unknown release",
+        };
+      }
+
+      // Freeze at the percentage it is currently offered to
+      const pausedPercentage =
+        request.body.state === "PAUSED"
+          ? getRolloutPercentage(appName, release)
+          : null;
+
+      await prisma.releaseRollout.upsert({
+        where: {
+          app_name_version: {
+            app_name: appName,
+            version,
+          },
+        },
+        update: {
+          state: request.body.state,
+          paused_percentage: pausedPercentage,
+          reason: request.body.reason ?? null,
+        },
+        create: {
+          app_name: appName,
+          version,
+          state: request.body.state,
+          paused_percentage: pausedPercentage,
+          reason: request.body.reason ?? null,
+        },
+      });
+
+      await refreshRolloutOverrides(prisma);
+
+      console.log(
+        "Rollout of %s v%s changed to %s: %s",
+        appName,
+        version,
+        request.body.state,
+        request.body.reason ?? "no reason given"
+      );
+
+      return {
+        ok: true,
+        rollout: getRolloutStatus(appName, release),
+      };
+    },
+  });
+}
+
+function getRolloutStatus(
+  appName: string,
+  release: StableRelease
+): z.infer<typeof RolloutStatus> {
+  return {
+    app: appName,
+    version: release.version.version,
+    publishedAt: release.publishedAt.toISOString(),
+    state:
+      getRolloutOverride(appName, release.version.version)?.state ?? "ACTIVE",
+    scheduledPercentage: getScheduledRolloutPercentage(release),
+    effectivePercentage: getRolloutPercentage(appName, release),
+  };
+}
+
+async function refreshRolloutOverrides(prisma: PrismaClient): Promise<void> {
+  const rows = await prisma.releaseRollout.findMany({
+    where: {
+      state: { not: "ACTIVE" },
+    },
+    select: {
+      app_name: true,
+      version: true,
+      state: true,
+      paused_percentage: true,
+    },
+  });
+
+  setRolloutOverrides(
+    new Map<string, RolloutOverride>(
+      rows.map((r) => [
+        rolloutOverrideKey(r.app_name, r.version),
+        { state: r.state, pausedPercentage: r.paused_percentage },
+      ])
+    )
+  );
+}
+
+/**
+ * Load the rollout overrides, and keep them updated in case they are changed by another instance
+ */
+export async function startRolloutOverridesRefresh(
+  prisma: PrismaClient
+): Promise<void> {
+  const doRefresh = () =>
+    refreshRolloutOverrides(prisma).catch((err) => {
+      console.error("Error loading rollout overrides:", err);
+      Sentry.captureException(err, {});
+    });
+
+  setInterval(() => {
+    doRefresh();
+  }, 60 * 1000);
+
+  await doRefresh();
+}
@@ -0,0 +1,248 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient, type SecurityAdvisory } from "./prisma/client.js";
+import semver from "semver";
+import * as Sentry from "@sentry/node";
+import { getAppDefinition, type AppDefinition } from "./lib/apps.js";
+import { setActiveSecurityAdvisories } from "./lib/security-advisories.js";
+
+const SecurityAdvisoryBody = z.object({
+  appName: z.string().max(16).describe("Name of the affected application"),
+  affectedRange: z
+    .string()
+    .max(255)
+    .refine(
+      (range: string) => semver.validRange(range, { loose: true }) !== null,
+      { message: "Invalid semver range" }
+    )
+    .describe("Semver range of the affected versions"),
+  fixedVersion: z
+    .string()
+    .max(32)
+    .refine((version: string) => semver.valid(version) !== null, {
+      message: "Invalid version",
+    })
+    .describe("First version containing the fix"),
+  severity: z.enum(["LOW", "MEDIUM", "HIGH", "CRITICAL"]),
+  title: z.string().min(1).max(255).describe("Short summary of the issue"),
+  advisoryUrl: z.string().url().max(255).describe("Link to the advisory"),
+
+  enabled: z.boolean().default(true),
+  publishedAt: z.coerce.date().optional(),
+});
+type SecurityAdvisoryBodyType = z.infer<typeof SecurityAdvisoryBody>;
+
+const SecurityAdvisoryObject = SecurityAdvisoryBody.extend({
+  id: z.number(),
+  publishedAt: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const SecurityAdvisoryIdParams = z.object({
+  id: z.coerce.number().int().describe("Id of the security advisory"),
+});
+
+const SecurityAdvisoryResponse = z.object({
+  ok: z.boolean(),
+  message: z.string().optional().describe("Reason for a failure"),
+  advisory: SecurityAdvisoryObject.optional(),
+});
+
+export function registerSecurityAdvisoryRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/security-advisories",
+    response: z.object({
+      ok: z.boolean(),
+      advisories: z.array(SecurityAdvisoryObject),
+    }),
+    config: {
+      description: "List all security advisories",
+      tags: ["Admin"],
+    },
+    handler: async () => {
+      const rows = await prisma.securityAdvisory.findMany({
+        orderBy: [{ published_at: "desc" }, { id: "desc" }],
+      });
+
+      return {
+        ok: true,
+        advisories: rows.map(formatSecurityAdvisoryRow),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "POST",
+    url: "/admin/security-advisories",
+    body: SecurityAdvisoryBody,
+    response: SecurityAdvisoryResponse,
+    config: {
+      description: "Create a security advisory",
+      tags: ["Admin"],
+    },
+    handler: async (request, reply) => {
+      const appDefinition = getAppDefinition(request.body.appName);
+      if (!appDefinition) {
+        reply.code(400);
+        return { ok: false, message: "Unknown application" };
+      }
+
+      const row = await prisma.securityAdvisory.create({
+        data: toSecurityAdvisoryRow(request.body, appDefinition),
+      });
+
+      await refreshSecurityAdvisories(prisma);
+
+      return {
+        ok: true,
+        advisory: formatSecurityAdvisoryRow(row),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "PUT",
+    url: "/admin/security-advisories/:id",
+    params: SecurityAdvisoryIdParams,
+    body: SecurityAdvisoryBody,
+    response: SecurityAdvisoryResponse,
+    config: {
+      description: "Replace a security advisory",
+      tags: ["Admin"],
+    },
+    handler: async (request, reply) => {
+      const appDefinition = getAppDefinition(request.body.appName);
+      if (!appDefinition) {
+        reply.code(400);
+        return { ok: false, message: "Unknown application" };
+      }
+
+      const { count } = await prisma.securityAdvisory.updateMany({
+        where: { id: request.params.id },
+        data: toSecurityAdvisoryRow(request.body, appDefinition),
+      });
+      if (count === 0) {
+        return {
+          ok: false,
+          message: "Unknown security advisory",
+        };
+      }
+
+      await refreshSecurityAdvisories(prisma);
+
+      const row = await prisma.securityAdvisory.findUniqueOrThrow({
+        where: { id: request.params.id },
+      });
+      return {
+        ok: true,
+        advisory: formatSecurityAdvisoryRow(row),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "DELETE",
+    url: "/admin/security-advisories/:id",
+    params: SecurityAdvisoryIdParams,
+    response: SecurityAdvisoryResponse,
+    config: {
+      description: "Delete a security advisory",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const { count } = await prisma.securityAdvisory.deleteMany({
+        where: { id: request.params.id },
+      });
+      if (count === 0) {
+        return {
+          ok: false,
+          message: "Unknown security advisory",
+        };
+      }
+
+      await refreshSecurityAdvisories(prisma);
+
+      return {
+        ok: true,
+      };
+    },
+  });
+}
+
+type SecurityAdvisoryRowData = Omit<
+  SecurityAdvisory,
+  "id" | "published_at" | "createdAt" | "updatedAt"
+> & {
+  published_at: Date | undefined; // left unchanged when not provided
+};
+
+function toSecurityAdvisoryRow(
+  body: SecurityAdvisoryBodyType,
+  appDefinition: AppDefinition
+): SecurityAdvisoryRowData {
+  return {
+    app_name: appDefinition.name,
+    affected_range: body.affectedRange,
+    fixed_version: body.fixedVersion.replace(/^v/, ""),
+    severity: body.severity,
+    title: body.title,
+    advisory_url: body.advisoryUrl,
+
+    enabled: body.enabled,
+    published_at: body.publishedAt,
+  };
+}
+
+function formatSecurityAdvisoryRow(
+  row: SecurityAdvisory
+): z.infer<typeof SecurityAdvisoryObject> {
+  return {
+    id: row.id,
+
+    appName: row.app_name,
+    affectedRange: row.affected_range,
+    fixedVersion: row.fixed_version,
+    severity: row.severity,
+    title: row.title,
+    advisoryUrl: row.advisory_url,
+
+    enabled: row.enabled,
+    publishedAt: row.published_at.toISOString(),
+
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+async function refreshSecurityAdvisories(prisma: PrismaClient): Promise<void> {
+  const rows = await prisma.securityAdvisory.findMany({
+    where: {
+      enabled: true,
+    },
+  });
+
+  setActiveSecurityAdvisories(rows);
+}
+
+/**
+ * Load the security advisories, and keep them updated in case they are changed by another instance
+ */
+export async function startSecurityAdvisoriesRefresh(
+  prisma: PrismaClient
+): Promise<void> {
+  const doRefresh = () =>
+    refreshSecurityAdvisories(prisma).catch((err) => {
+      console.error("Error loading security advisories:", err);
+      Sentry.captureException(err, {});
+    });
+
+  setInterval(() => {
+    doRefresh();
+  }, 60 * 1000);
+
+  await doRefresh();
+}
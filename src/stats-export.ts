@@ -0,0 +1,83 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { Readable } from "stream";
+import { PrismaClient } from "./prisma/client.js";
+import {
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  exportDataset,
+  getExportMinInstallations,
+  type ExportFormat,
+} from "./lib/stats-export.js";
+import { formatStatsDay } from "./lib/stats.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+/**
+ * Export aggregated datasets, for sharing the usage numbers.
+ * The export is streamed rather than built in memory
+ */
+export function registerStatsExportRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/stats/export/:dataset",
+    params: z.object({
+      dataset: z.enum(EXPORT_DATASETS).describe("The dataset to export"),
+    }),
+    query: z.object({
+      format: z.enum(EXPORT_FORMATS).default("csv"),
+      days: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(365)
+        .default(30)
+        .describe("Number of days of usage to include"),
+      minInstallations: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+          "Fewest installations a group must have to be included. Can't be below the configured minimum"
+        ),
+    }),
+    response: z
+      .object({
+        ok: z.boolean(),
+        message: z.string().optional(),
+      })
+      .describe("The dataset is sent as csv or ndjson"),
+    config: {
+      description:
+        "Export an aggregated dataset, leaving out groups with too few installations",
+      tags: ["Stats"],
+    },
+    handler: async (request, reply) => {
+      const { dataset } = request.params;
+      const { format, days } = request.query;
+      const now = new Date();
+
+      const lines = exportDataset(prisma, dataset, format, {
+        since: new Date(now.getTime() - days * DAY_MS),
+        minInstallations: getExportMinInstallations(
+          request.query.minInstallations
+        ),
+      });
+
+      reply.type(CONTENT_TYPES[format as ExportFormat]);
+      reply.header(
+        "Content-Disposition",
+        `attachment; filename="${dataset}-${formatStatsDay(now)}.${format}"`
+      );
+      return reply.send(Readable.from(lines));
+    },
+  });
+}
@@ -0,0 +1,221 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient, type BranchSupportPolicy } from "./prisma/client.js";
+import * as Sentry from "@sentry/node";
+import { getAppDefinition } from "./lib/apps.js";
+import { setBranchPolicies } from "./lib/support-policy.js";
+
+const BranchPolicyObject = z.object({
+  app: z.string().describe("Name of the application"),
+  branch: z.string().describe("The minor branch, eg 3.4"),
+  lts: z
+    .boolean()
+    .describe(
+      "Long term support branches remain supported once newer minor branches are released, until their end of life"
+    ),
+  endOfLife: z
+    .string()
+    .nullable()
+    .describe("Date the branch stops being supported, eg 2026-06-30"),
+  updatedAt: z.string(),
+});
+
+const BranchPolicyParams = z.object({
+  app: z.string().describe("Name of the application"),
+  branch: z
+    .string()
+    .regex(/^\d+\.\d+$/)
+    .describe("The minor branch, eg 3.4"),
+});
+
+const BranchPolicyResponse = z.object({
+  ok: z.boolean(),
+  message: z.string().optional().describe("Reason for a failure"),
+  policy: BranchPolicyObject.optional(),
+});
+
+export function registerSupportPolicyRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/support-policy",
+    response: z.object({
+      ok: z.boolean(),
+      policies: z.array(BranchPolicyObject),
+    }),
+    config: {
+      description: "List the support terms of specific branches",
+      tags: ["Admin"],
+    },
+    handler: async () => {
+      const rows = await prisma.branchSupportPolicy.findMany({
+        orderBy: [{ app_name: "asc" }, { branch: "asc" }],
+      });
+
+      return {
+        ok: true,
+        policies: rows.map(formatBranchPolicyRow),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "PUT",
+    url: "/admin/support-policy/:app/:branch",
+    params: BranchPolicyParams,
+    body: z.object({
+      lts: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Whether the branch remains supported once newer minor branches are released"
+        ),
+      endOfLife: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/)
+        .optional()
+        .describe("Date the branch stops being supported, eg 2026-06-30"),
+    }),
+    response: BranchPolicyResponse,
+    config: {
+      description: "Set the support terms of a branch",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const appDefinition = getAppDefinition(request.params.app);
+      if (!appDefinition) {
+        return {
+          ok: false,
+          message: "Unknown application",
+        };
+      }
+
+      const endOfLife = request.body.endOfLife
+        ? new Date(request.body.endOfLife)
+        : null;
+      if (endOfLife && isNaN(endOfLife.getTime())) {
+        return {
+          ok: false,
+          message: "Invalid end of life date",
+        };
+      }
+
+      const data = {
+        lts: request.body.lts,
+        end_of_life: endOfLife,
+      };
+      const row = await prisma.branchSupportPolicy.upsert({
+        where: {
+          app_name_branch: {
+            app_name: appDefinition.name,
+            branch: request.params.branch,
+          },
+        },
+        update: data,
+        create: {
+          app_name: appDefinition.name,
+          branch: request.params.branch,
+          ...data,
+        },
+      });
+
+      console.log(
+        "Support policy of %s %s changed: lts %s, end of life %s",
+        appDefinition.name,
+        request.params.branch,
+        data.lts,
+        request.body.endOfLife ?? "none"
+      );
+
+      await refreshBranchPolicies(prisma);
+
+      return {
+        ok: true,
+        policy: formatBranchPolicyRow(row),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "DELETE",
+    url: "/admin/support-policy/:app/:branch",
+    params: BranchPolicyParams,
+    response: BranchPolicyResponse,
+    config: {
+      description:
+        "Remove the support terms of a branch, so it is supported only while it is one of the newest branches",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const appName =
+        getAppDefinition(request.params.app)?.name ?? request.params.app;
+
+      const { count } = await prisma.branchSupportPolicy.deleteMany({
+        where: { app_name: appName, branch: request.params.branch },
+      });
+      if (count === 0) {
+        return {
+          ok: false,
+          message: "Unknown branch policy",
+        };
+      }
+
+      console.log(
+        "Support policy of %s %s removed",
+        appName,
+        request.params.branch
+      );
+
+      await refreshBranchPolicies(prisma);
+
+      return {
+        ok: true,
+      };
+    },
+  });
+}
+
+function formatBranchPolicyRow(
+  row: BranchSupportPolicy
+): z.infer<typeof BranchPolicyObject> {
+  return {
+    app: row.app_name,
+    branch: row.branch,
+    lts: row.lts,
+    endOfLife: row.end_of_life?.toISOString().slice(0, 10) ?? null,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+async function refreshBranchPolicies(prisma: PrismaClient): Promise<void> {
+  const rows = await prisma.branchSupportPolicy.findMany({
+    select: {
+      app_name: true,
+      branch: true,
+      lts: true,
+      end_of_life: true,
+    },
+  });
+
+  setBranchPolicies(rows);
+}
+
+/**
+ * Load the branch policies, and keep them updated in case they are changed by another instance
+ */
+export async function startBranchPoliciesRefresh(
+  prisma: PrismaClient
+): Promise<void> {
+  const doRefresh = () =>
+    refreshBranchPolicies(prisma).catch((err) => {
+      console.error("Error loading branch support policies:", err);
+      Sentry.captureException(err, {});
+    });
+
+  setInterval(() => {
+    doRefresh();
+  }, 60 * 1000);
+
+  await doRefresh();
+}
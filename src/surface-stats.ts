@@ -0,0 +1,191 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient } from "./prisma/client.js";
+import {
+  getSurfaceDeviceTotals,
+  getSurfaceModelUsage,
+  getSurfaceModuleUsage,
+} from "./lib/surface-stats.js";
+import {
+  formatStatsDay,
+  resolveStatsRange,
+  StatsRangeQuery,
+} from "./lib/stats.js";
+import { splitUsageRange } from "./lib/usage-rollup.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SurfaceUsagePeriodObject = z.object({
+  period: z.string().describe("First day of the period"),
+  installations: z
+    .number()
+    .describe("Distinct installations which used the surfaces"),
+  devices: z
+    .number()
+    .describe("Number of surfaces connected to those installations"),
+  uniqueDevices: z
+    .number()
+    .optional()
+    .describe(
+      "Number of distinct serial numbers, counting a surface used by multiple installations once"
+    ),
+});
+
+const SurfaceUsageResponse = z.object({
+  ok: z.boolean(),
+  from: z.string(),
+  to: z.string(),
+  truncatedFrom: z
+    .string()
+    .optional()
+    .describe(
+      "Set when the start of the range has been pruned, to the first day which is reported"
+    ),
+  grouping: z.string(),
+  surfaces: z.array(
+    z.object({
+      name: z.string(),
+      periods: z.array(SurfaceUsagePeriodObject),
+    })
+  ),
+});
+
+export function registerSurfaceStatsRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/stats/surfaces",
+    query: StatsRangeQuery,
+    response: SurfaceUsageResponse,
+    config: {
+      description:
+        "Get the number of installations using each surface module, and how many surfaces they have connected",
+      tags: ["Stats"],
+    },
+    handler: async (request) => {
+      const range = resolveStatsRange(request.query.from, request.query.to);
+
+      const surfaces = await getSurfaceModuleUsage(
+        prisma,
+        range,
+        request.query.grouping
+      );
+
+      const { truncatedFrom } = splitUsageRange(range, request.query.grouping);
+
+      return {
+        ok: true,
+        from: formatStatsDay(range.from),
+        to: formatStatsDay(range.to),
+        truncatedFrom: truncatedFrom
+          ? formatStatsDay(truncatedFrom)
+          : undefined,
+        grouping: request.query.grouping,
+        surfaces,
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/stats/surfaces/models",
+    query: StatsRangeQuery.extend({
+      module: z
+        .string()
+        .optional()
+        .describe("Only report the models of this surface module"),
+    }),
+    response: SurfaceUsageResponse,
+    config: {
+      description:
+        "Get the number of installations using each model of surface, and how many of them are connected",
+      tags: ["Stats"],
+    },
+    handler: async (request) => {
+      const range = resolveStatsRange(request.query.from, request.query.to);
+
+      const surfaces = await getSurfaceModelUsage(
+        prisma,
+        range,
+        request.query.grouping,
+        request.query.module
+      );
+
+      const { truncatedFrom } = splitUsageRange(range, request.query.grouping);
+
+      return {
+        ok: true,
+        from: formatStatsDay(range.from),
+        to: formatStatsDay(range.to),
+        truncatedFrom: truncatedFrom
+          ? formatStatsDay(truncatedFrom)
+          : undefined,
+        grouping: request.query.grouping,
+        surfaces,
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/stats/surfaces/devices",
+    query: z.object({
+      days: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(365)
+        .default(30)
+        .describe("Only count surfaces seen in this many days"),
+      module: z
+        .string()
+        .optional()
+        .describe("Only count the surfaces of this surface module"),
+    }),
+    response: z.object({
+      ok: z.boolean(),
+      since: z.string(),
+      truncatedFrom: z
+        .string()
+        .optional()
+        .describe(
+          "Set when surfaces seen before this time have been deleted by the retention, so are not counted"
+        ),
+      uniqueDevices: z
+        .number()
+        .describe("Number of distinct physical surfaces, by serial number"),
+      models: z.array(
+        z.object({
+          description: z.string(),
+          installations: z.number(),
+          devices: z
+            .number()
+            .describe("Number of surfaces, per installation using them"),
+          uniqueDevices: z.number(),
+        })
+      ),
+    }),
+    config: {
+      description:
+        "Get the number of distinct physical surfaces seen recently, per model",
+      tags: ["Stats"],
+    },
+    handler: async (request) => {
+      const since = new Date(Date.now() - request.query.days * DAY_MS);
+
+      const { truncatedFrom, ...totals } = await getSurfaceDeviceTotals(
+        prisma,
+        since,
+        request.query.module
+      );
+
+      return {
+        ok: true,
+        since: since.toISOString(),
+        truncatedFrom: truncatedFrom?.toISOString(),
+        ...totals,
+      };
+    },
+  });
+}
@@ -1,8 +1,44 @@
 import { z, type APIServer } from "@bitfocusas/api";
 import { PrismaClient } from "./prisma/client.js";
+import type { UpdateAdviceKind } from "./prisma/enums.js";
 import semver from "semver";
 import * as Sentry from "@sentry/node";
-import { getLatestReleases } from "./lib/releases.js";
+import {
+  getLatestReleases,
+  type LatestReleases,
+  type ReleaseSet,
+  type StableRelease,
+} from "./lib/releases.js";
+import {
+  getRolloutBucket,
+  resolveFullyRolledOutReleases,
+  resolveReleasesForInstallation,
+} from "./lib/rollout.js";
+import { findAnnouncement, formatAnnouncement } from "./lib/announcements.js";
+import {
+  combineReleaseNotes,
+  getChangelogReleases,
+  summarizeReleaseNotes,
+} from "./lib/changelog.js";
+import { findSecurityAdvisory } from "./lib/security-advisories.js";
+import { findYankedRelease } from "./lib/yanked-releases.js";
+import { writeUpdateAdvice } from "./lib/write-update-advice.js";
+import {
+  getDownloadLink,
+  getPlatformRequirement,
+  isVersionSupportedOnOs,
+} from "./lib/platforms.js";
+import { getBranchSupport, type BranchSupport } from "./lib/support-policy.js";
+import {
+  getAppDefinition,
+  resolveAppName,
+  type AppDefinition,
+} from "./lib/apps.js";
+import {
+  getBuildInfoColumns,
+  parseBuildInfo,
+  type BuildInfo,
+} from "./lib/build-info.js";
 
 export const UpdatesBody = z.object({
   id: z.string().describe("Unique identifier for the installation"),
@@ -31,9 +67,169 @@ const UpdatesResponse = z.object({
     .optional()
     .describe("Additional message (Supported since Companion 4.2)"),
   link: z.string().url().optional().describe("Download URL"),
+  whatsNew: z
+    .string()
+    .optional()
+    .describe("Short summary of the changes in the offered update"),
+  advisory: z
+    .object({
+      severity: z
+        .enum(["low", "medium", "high", "critical"])
+        .describe("Severity of the security issue"),
+      title: z.string().describe("Short summary of the security issue"),
+      url: z.string().url().describe("Link to the full advisory"),
+      fixedVersion: z.string().describe("First version containing the fix"),
+    })
+    .optional()
+    .describe(
+      "Security advisory affecting the installed version. When present, the message is a fallback for clients which don't understand this field"
+    ),
 });
 type UpdatesResponseType = z.infer<typeof UpdatesResponse>;
 
+/**
+ * The advice given by an update check, recorded to measure how installations act on it
+ */
+export interface UpdateAdvice {
+  kind: UpdateAdviceKind;
+  /** The version the installation was advised to install, if any */
+  targetVersion: string | null;
+}
+
+/**
+ * An update response, along with the advice it gives. The advice is null when the check couldn't be answered
+ */
+type AdvisedUpdatesResponse = UpdatesResponseType & {
+  advice: UpdateAdvice | null;
+};
+
+const ChangelogResponse = z.object({
+  ok: z.boolean().describe("Indicates if the changelog could be produced"),
+  message: z.string().optional().describe("Reason for a failure"),
+  releases: z
+    .array(
+      z.object({
+        version: z.string().describe("Release version"),
+        title: z.string().nullable().describe("Title of the release"),
+        publishedAt: z.string().describe("When the release was published"),
+        notes: z.string().nullable().describe("Release notes, in markdown"),
+      })
+    )
+    .optional()
+    .describe("The releases between the two versions, oldest first"),
+  truncated: z
+    .boolean()
+    .optional()
+    .describe(
+      "Set when `from` is older than the known releases, so the releases after it may be incomplete"
+    ),
+  combined: z
+    .string()
+    .optional()
+    .describe("The release notes combined into a single markdown document"),
+});
+
+const ExplainBody = z.object({
+  id: z
+    .string()
+    .default("explain")
+    .describe("Installation id, which determines the rollout bucket"),
+  build: z.string().describe("Full build string, eg 4.2.0+7001-beta-ee7c3daa"),
+  app: z
+    .object({
+      name: z.string().default("companion"),
+      version: z
+        .string()
+        .optional()
+        .describe("Reported version, defaults to the build"),
+    })
+    .default({ name: "companion" }),
+  os: z
+    .object({
+      platform: z.string().default(""),
+      arch: z.string().default(""),
+      release: z.string().default(""),
+    })
+    .default({ platform: "", arch: "", release: "" }),
+  releases: z
+    .object({
+      stable: z
+        .array(
+          z.object({
+            version: z.string(),
+            publishedAt: z.coerce
+              .date()
+              .optional()
+              .describe(
+                "Defaults to long ago, so the release is fully rolled out"
+              ),
+            title: z.string().nullable().default(null),
+            notes: z.string().nullable().default(null),
+          })
+        )
+        .min(1),
+      betas: z
+        .record(
+          z.string(),
+          z.object({
+            version: z.string(),
+            buildNumber: z.number().int(),
+          })
+        )
+        .default({})
+        .describe("Latest beta build, keyed by branch"),
+    })
+    .optional()
+    .describe("Releases to use instead of the known releases"),
+});
+type ExplainBodyType = z.infer<typeof ExplainBody>;
+
+const ExplainResponse = z.object({
+  ok: z.boolean(),
+  message: z.string().optional().describe("Reason for a failure"),
+  response: UpdatesResponse.optional().describe(
+    "The response the installation would receive"
+  ),
+  advice: z
+    .object({
+      kind: z.string(),
+      targetVersion: z.string().nullable(),
+    })
+    .nullable()
+    .optional(),
+  decision: z
+    .object({
+      path: z.array(z.string()).describe("The rules checked, in order"),
+      build: z
+        .object({
+          version: z.string(),
+          buildNumber: z.number(),
+          branch: z.string(),
+          channel: z.string(),
+          commitHash: z.string(),
+        })
+        .nullable(),
+      rolloutBucket: z
+        .number()
+        .nullable()
+        .describe("Rollout bucket of the installation, in the range [0, 100)"),
+      availableVersions: z
+        .array(z.string())
+        .nullable()
+        .describe("Stable versions rolled out to the installation"),
+      branchSupport: z
+        .object({
+          branch: z.string(),
+          supported: z.boolean(),
+          lts: z.boolean(),
+          endOfLife: z.string().nullable(),
+        })
+        .nullable(),
+      releaseSource: z.enum(["known", "override"]),
+    })
+    .optional(),
+});
+
 export function registerUpdateRoutes(
   app: APIServer,
   prisma: PrismaClient
@@ -54,15 +250,216 @@ export function registerUpdateRoutes(
         Sentry.captureException(error, { extra: { userInfo: request.body } });
       });
 
-      if (request.body.app.name === "companion") {
-        return prepareCompanionResponse(request.body.app.build);
+      const appDefinition = getAppDefinition(request.body.app.name);
+      let response: UpdatesResponseType;
+      if (appDefinition) {
+        const { advice, ...advisedResponse } = await prepareUpdateResponse(
+          appDefinition,
+          request.body
+        );
+        response = advisedResponse;
+
+        if (advice) recordUpdateAdvice(prisma, request.body, advice);
       } else {
-        return {
+        response = {
           ok: true,
           message: "",
           // message: "Unknown application",
         };
       }
+
+      const buildInfo = appDefinition
+        ? parseBuildInfo(appDefinition, request.body.app.build)
+        : null;
+      const announcement = findAnnouncement(
+        request.body,
+        buildInfo?.channel ?? null
+      );
+      if (announcement) {
+        response.message2 = formatAnnouncement(announcement);
+      }
+
+      return response;
+    },
+  });
+
+  app.createEndpoint({
+    method: "GET",
+    url: "/updates/changelog",
+    query: z.object({
+      app: z.string().default("companion").describe("Name of the application"),
+      from: z
+        .string()
+        .describe("Installed version, the notes of this release are excluded"),
+      to: z
+        .string()
+        .optional()
+        .describe(
+          "Target version, defaults to the latest stable release available to the installation"
+        ),
+      id: z
+        .string()
+        .optional()
+        .describe(
+          "Installation id, which determines the rollout bucket. Without it, only releases rolled out to everyone are included"
+        ),
+    }),
+    response: ChangelogResponse,
+    config: {
+      description:
+        "Get the combined release notes of the stable releases between two versions",
+      tags: ["Updates"],
+    },
+    handler: async (request) => {
+      const releaseSet = getLatestReleases(request.query.app);
+      if (!releaseSet) {
+        return {
+          ok: false,
+          message: "Unknown application",
+        };
+      }
+
+      // Only describe the releases the installation could be offered, the same as an update check
+      const availableReleases = request.query.id
+        ? resolveReleasesForInstallation(
+            request.query.app,
+            releaseSet,
+            request.query.id
+          )
+        : resolveFullyRolledOutReleases(request.query.app, releaseSet);
+      if (!availableReleases) {
+        return {
+          ok: false,
+          message: "No releases are available",
+        };
+      }
+
+      const from = semver.coerce(request.query.from, { loose: true });
+      const to = request.query.to
+        ? semver.coerce(request.query.to, { loose: true })
+        : availableReleases.stableReleases[0].version;
+      if (!from || !to) {
+        return {
+          ok: false,
+          message: "Invalid version format",
+        };
+      }
+
+      const releases = getChangelogReleases(
+        availableReleases.stableReleases,
+        from,
+        to
+      );
+
+      // The provider may not know the whole history, anything between `from` and the oldest known release could be missing
+      const oldestKnown =
+        releaseSet.stableReleases[releaseSet.stableReleases.length - 1];
+
+      return {
+        ok: true,
+        truncated: semver.lt(from, oldestKnown.version) || undefined,
+        releases: releases.map((release) => ({
+          version: release.version.version,
+          title: release.title,
+          publishedAt: release.publishedAt.toISOString(),
+          notes: release.body,
+        })),
+        combined: combineReleaseNotes(releases),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "POST",
+    url: "/admin/updates/explain",
+    body: ExplainBody,
+    response: ExplainResponse,
+    config: {
+      description:
+        "Explain the update response an installation would receive, and how it was decided",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const { body } = request;
+
+      const appDefinition = getAppDefinition(body.app.name);
+      if (!appDefinition) {
+        return {
+          ok: false,
+          message: "Unknown application",
+        };
+      }
+
+      let releaseSet: ReleaseSet | null;
+      if (body.releases) {
+        releaseSet = toExplainReleaseSet(body.releases);
+        if (!releaseSet) {
+          return {
+            ok: false,
+            message: "Invalid release version",
+          };
+        }
+      } else {
+        releaseSet = getLatestReleases(appDefinition.name);
+      }
+
+      const userInfo: UpdatesBodyType = {
+        id: body.id,
+        app: {
+          name: appDefinition.name,
+          version: body.app.version ?? body.build,
+          build: body.build,
+        },
+        os: body.os,
+      };
+      const trace: UpdateDecisionTrace = {
+        path: [],
+        buildInfo: null,
+        rolloutBucket: null,
+        availableVersions: null,
+        branchSupport: null,
+      };
+
+      const { advice, ...response } = await prepareUpdateResponse(
+        appDefinition,
+        userInfo,
+        { releaseSet, trace }
+      );
+
+      // Match the announcement the same way as the update check does
+      const announcement = findAnnouncement(
+        userInfo,
+        trace.buildInfo?.channel ?? null
+      );
+      if (announcement) {
+        trace.path.push(`Announcement #${announcement.id} matched`);
+        response.message2 = formatAnnouncement(announcement);
+      }
+
+      return {
+        ok: true,
+        response,
+        advice,
+        decision: {
+          path: trace.path,
+          build: trace.buildInfo && {
+            version: trace.buildInfo.version.version,
+            buildNumber: trace.buildInfo.buildNumber,
+            branch: trace.buildInfo.branch,
+            channel: trace.buildInfo.channel,
+            commitHash: trace.buildInfo.commitHash,
+          },
+          rolloutBucket: trace.rolloutBucket,
+          availableVersions: trace.availableVersions,
+          branchSupport: trace.branchSupport && {
+            branch: trace.branchSupport.branch,
+            supported: trace.branchSupport.supported,
+            lts: trace.branchSupport.lts,
+            endOfLife: trace.branchSupport.endOfLife?.toISOString() ?? null,
+          },
+          releaseSource: body.releases ? "override" : "known",
+        },
+      };
     },
   });
 
@@ -93,8 +490,7 @@ export function registerUpdateRoutes(
       tags: ["Updates"],
     },
     handler: async (request) => {
-      // Defer database update to not block response
-      updateUserDb(prisma, {
+      const userInfo: UpdatesBodyType = {
         id: request.body.id,
         app: {
           name: request.body.app_name,
@@ -106,12 +502,20 @@ export function registerUpdateRoutes(
           arch: request.body.arch,
           release: request.body.release,
         },
-      }).catch((error) => {
+      };
+
+      // Defer database update to not block response
+      updateUserDb(prisma, userInfo).catch((error) => {
         console.error("Error updating user in database:", error);
         Sentry.captureException(error, { extra: { userInfo: request.body } });
       });
 
-      const res = await prepareCompanionResponse(request.body.app_build);
+      const res = await prepareUpdateResponse(
+        getAppDefinition("companion")!,
+        userInfo
+      );
+      if (res.advice) recordUpdateAdvice(prisma, userInfo, res.advice);
+
       return {
         message: res.message,
         link: res.link,
@@ -120,187 +524,642 @@ export function registerUpdateRoutes(
   });
 }
 
-async function prepareCompanionResponse(
-  appBuild: string
-): Promise<UpdatesResponseType> {
-  const parsedBuild = semver.parse(appBuild, { loose: true });
+/**
+ * The decisions taken while preparing an update response, to explain the response
+ */
+interface UpdateDecisionTrace {
+  /** The rules checked and matched, in order */
+  path: string[];
+  buildInfo: BuildInfo | null;
+  rolloutBucket: number | null;
+  /** The stable versions available to the installation */
+  availableVersions: string[] | null;
+  branchSupport: BranchSupport | null;
+}
+
+interface UpdateDecisionContext {
+  /** The releases to advise about, null when they are not known yet */
+  releaseSet: ReleaseSet | null;
+  trace: UpdateDecisionTrace | null;
+}
+
+async function prepareUpdateResponse(
+  app: AppDefinition,
+  userInfo: UpdatesBodyType,
+  context: UpdateDecisionContext = {
+    releaseSet: getLatestReleases(app.name),
+    trace: null,
+  }
+): Promise<AdvisedUpdatesResponse> {
+  // A security advisory takes priority over any other advice
+  const parsedBuild = semver.parse(userInfo.app.build, { loose: true });
+  const advisory = parsedBuild && findSecurityAdvisory(app.name, parsedBuild);
+  if (advisory) {
+    context.trace?.path.push(
+      `Security advisory #${advisory.id} matched: ${advisory.affected_range} is affected`
+    );
+
+    const severity = advisory.severity.toLowerCase() as Lowercase<
+      typeof advisory.severity
+    >;
+    return {
+      ok: true,
+      advice: { kind: "SECURITY", targetVersion: advisory.fixed_version },
+      message: `SECURITY WARNING: This version of ${app.displayName} is affected by a ${severity} severity security issue (${advisory.title}). Please update to v${advisory.fixed_version} or later as soon as possible.`,
+      link: getDownloadLink(app, "stable", userInfo.os),
+      advisory: {
+        severity,
+        title: advisory.title,
+        url: advisory.advisory_url,
+        fixedVersion: advisory.fixed_version,
+      },
+    };
+  }
+
+  context.trace?.path.push("No security advisory matched");
+
+  return prepareReleaseResponse(app, userInfo, context);
+}
+
+async function prepareReleaseResponse(
+  app: AppDefinition,
+  userInfo: UpdatesBodyType,
+  { releaseSet, trace }: UpdateDecisionContext
+): Promise<AdvisedUpdatesResponse> {
+  const { os } = userInfo;
+
+  const parsedBuild = semver.parse(userInfo.app.build, { loose: true });
   if (!parsedBuild) {
+    trace?.path.push("The build is not a valid version");
     return {
       ok: true,
+      advice: { kind: "UNKNOWN_BUILD", targetVersion: null },
       message: "Unable to check updates: Invalid version format",
     };
   }
 
-  // Very old 2.x versions, interpreting stable vs beta is different and not worth supporting
-  if (parsedBuild.major < 3) {
+  // Very old versions, interpreting stable vs beta is different and not worth supporting
+  if (parsedBuild.major < app.minimumMajor) {
+    trace?.path.push(
+      `Major version ${parsedBuild.major} is older than the minimum of ${app.minimumMajor}`
+    );
     return {
       ok: true,
-      message:
-        "This is a very old version of Companion. Companion has improved a lot, we strongly recommend updating",
-      link: "https://user.bitfocus.io/download?companion_inapp_ancient",
+      advice: { kind: "ANCIENT", targetVersion: null },
+      message: `This is a very old version of ${app.displayName}. ${app.displayName} has improved a lot, we strongly recommend updating`,
+      link: getDownloadLink(app, "ancient", os),
     };
   }
 
-  // Known build format must be like: 3.3.1+7001-stable-ee7c3daa
-  // Accept optional leading `v`, require core semver, a `+` build number, then `-stable-<hash>` or `-beta-<hash>`
-  const knownBuildMatch = appBuild.match(
-    /^v?(\d+)\.(\d+)\.(\d+)\+(\d+)-(.+)-([0-9a-fA-F]{7,40})$/
-  );
-  if (!knownBuildMatch) {
+  const buildInfo = parseBuildInfo(app, userInfo.app.build);
+  if (trace) trace.buildInfo = buildInfo;
+  if (!buildInfo) {
+    trace?.path.push("The build does not match the build format of the app");
     return {
       ok: true,
+      advice: { kind: "UNKNOWN_BUILD", targetVersion: null },
       message: "Unable to check updates: Unknown build format",
     };
   }
 
-  const buildKind = knownBuildMatch[5];
-  const isStable = buildKind === "stable" || buildKind.startsWith("stable-");
-  const isBeta = buildKind === "beta" || buildKind === "main";
+  trace?.path.push(
+    `Build ${buildInfo.version.version}+${buildInfo.buildNumber} is on branch "${buildInfo.branch}", in the ${buildInfo.channel} channel`
+  );
 
-  // Make sure we know the latest releases
-  const latestReleases = getLatestReleases();
-  if (!latestReleases) {
+  // Make sure we know the latest releases, as rolled out to this installation
+  const allReleases =
+    releaseSet &&
+    resolveReleasesForInstallation(app.name, releaseSet, userInfo.id);
+  if (trace) {
+    trace.rolloutBucket = getRolloutBucket(userInfo.id);
+    trace.availableVersions =
+      allReleases?.stableReleases.map((r) => r.version.version) ?? null;
+  }
+  if (!releaseSet || !allReleases) {
+    trace?.path.push("No releases are available to the installation");
     return {
       // Unable to check, encourage client to try again later
       ok: false,
+      advice: null,
       message: "",
     };
   }
 
-  // If the user version is older than the minor branch of the old stable, we consider it outdated
-  const oldStableMinorBranch = `${latestReleases.oldStable.major}.${latestReleases.oldStable.minor}.0`;
-  // Don't consider beta/stable differences here, just the version number
-  if (semver.lt(parsedBuild, oldStableMinorBranch, { loose: true })) {
+  // Installations running a withdrawn release must change version, even if that is a downgrade
+  const yankedRelease =
+    buildInfo.channel === "stable"
+      ? findYankedRelease(
+          app.name,
+          `${parsedBuild.major}.${parsedBuild.minor}.${parsedBuild.patch}`
+        )
+      : null;
+  if (yankedRelease) {
+    trace?.path.push(`v${yankedRelease.version} has been withdrawn`);
+    const replacementVersion =
+      yankedRelease.replacement_version ?? allReleases.currentStable.version;
+    return {
+      ok: true,
+      advice: { kind: "WITHDRAWN", targetVersion: replacementVersion },
+      message: `This release of ${app.displayName} (v${
+        yankedRelease.version
+      }) has been withdrawn${
+        yankedRelease.reason ? `: ${yankedRelease.reason}` : "."
+      } Please install v${replacementVersion} instead.`,
+      link: getDownloadLink(app, "stable", os),
+    };
+  }
+
+  // Only advise updating to versions which support the os of the installation
+  if (isVersionSupportedOnOs(app, allReleases.currentStable, os)) {
+    trace?.path.push(
+      `The current stable v${allReleases.currentStable.version} supports the os`
+    );
+    return prepareChannelResponse(
+      app,
+      os,
+      parsedBuild,
+      buildInfo,
+      releaseSet,
+      allReleases,
+      trace
+    );
+  }
+
+  const requirement = getPlatformRequirement(
+    app,
+    allReleases.currentStable,
+    os.platform
+  );
+  const requirementText = `v${allReleases.currentStable.version} requires ${
+    requirement?.name ?? "a newer operating system"
+  } or later`;
+  trace?.path.push(`The os is not supported: ${requirementText}`);
+
+  const latestReleases = resolveReleasesForInstallation(
+    app.name,
+    releaseSet,
+    userInfo.id,
+    (release) => isVersionSupportedOnOs(app, release.version, os)
+  );
+  if (!latestReleases) {
+    // None of the known releases support this os
+    trace?.path.push("None of the available releases support the os");
     return {
       ok: true,
-      message: `This version of Companion is outdated and no longer supported. Please update to the latest version v${latestReleases.currentStable}.`,
-      link: "https://user.bitfocus.io/download?companion_inapp_obsolete",
+      advice: { kind: "OS_UNSUPPORTED", targetVersion: null },
+      message: `Your operating system is no longer supported by ${app.displayName}, ${requirementText}.`,
     };
   }
 
-  if (isStable) {
-    // Cases handled for stable builds:
-    // - User on old stable minor branch (major.minor == oldStable.major.minor)
-    //   - If user < oldStable => behind old stable (offer update)
-    //   - If user == oldStable => latest of old stable (offer update to current)
-    // - User on current stable minor branch (major.minor == currentStable.major.minor)
-    //   - If user == currentStable => no message
-    //   - If user < currentStable => behind current (offer update)
-    // Any other stable build (different minor) will fall through to the default assumption below.
-
-    // Old stable branch
+  trace?.path.push(
+    `Advising about the last release supporting the os, v${latestReleases.currentStable.version}`
+  );
+  const response = prepareChannelResponse(
+    app,
+    os,
+    parsedBuild,
+    buildInfo,
+    releaseSet,
+    latestReleases,
+    trace
+  );
+  if (buildInfo.channel !== "stable") return response;
+
+  if (!response.message) {
+    // Up to date with the last version supporting this os
+    return {
+      ok: true,
+      advice: { kind: "OS_UNSUPPORTED", targetVersion: null },
+      message: `A new version of ${app.displayName} is available, but ${requirementText}. Please update your operating system to continue receiving updates.`,
+    };
+  } else {
+    return {
+      ...response,
+      message: `${response.message} This is the last version supporting your operating system, ${requirementText}.`,
+    };
+  }
+}
+
+/**
+ * Advise the installation based on its build channel
+ * @param releaseSet All the known releases of the app
+ * @param latestReleases The releases the installation is able to update to
+ */
+function prepareChannelResponse(
+  app: AppDefinition,
+  os: UpdatesBodyType["os"],
+  parsedBuild: semver.SemVer,
+  buildInfo: BuildInfo,
+  releaseSet: ReleaseSet,
+  latestReleases: LatestReleases,
+  trace: UpdateDecisionTrace | null
+): AdvisedUpdatesResponse {
+  const buildChannel = buildInfo.channel;
+
+  // Summarise what the installation would gain by updating to the current stable
+  const whatsNew = summarizeReleaseNotes(
+    getChangelogReleases(
+      latestReleases.stableReleases,
+      parsedBuild,
+      latestReleases.currentStable
+    )
+  );
+
+  // Users of a branch which is no longer supported are told to update, regardless of their build channel
+  const support = getBranchSupport(
+    app,
+    parsedBuild,
+    resolveFullyRolledOutReleases(app.name, releaseSet),
+    latestReleases
+  );
+  if (trace) trace.branchSupport = support;
+  if (!support.supported) {
+    trace?.path.push(`Branch ${support.branch} is not supported`);
+    return {
+      ok: true,
+      advice: {
+        kind: "OUTDATED",
+        targetVersion: latestReleases.currentStable.version,
+      },
+      message: support.endOfLife
+        ? `This version of ${
+            app.displayName
+          } reached end of support on ${formatSupportDate(
+            support.endOfLife
+          )}. Please update to the latest version v${
+            latestReleases.currentStable
+          }.`
+        : `This version of ${app.displayName} is outdated and no longer supported. Please update to the latest version v${latestReleases.currentStable}.`,
+      link: getDownloadLink(app, "obsolete", os),
+      whatsNew,
+    };
+  }
+
+  if (buildChannel === "stable") {
+    return withEndOfSupportNotice(
+      prepareStableResponse(
+        app,
+        os,
+        parsedBuild,
+        latestReleases,
+        support,
+        whatsNew,
+        trace
+      ),
+      support,
+      trace
+    );
+  } else if (buildChannel === "beta") {
+    // Beta
+    // Note: semver ignores the build number, so a beta of the same version as the stable is considered overtaken
     if (
-      parsedBuild.major === latestReleases.oldStable.major &&
-      parsedBuild.minor === latestReleases.oldStable.minor
+      semver.lte(parsedBuild, latestReleases.currentStable, { loose: true })
     ) {
-      if (semver.lt(parsedBuild, latestReleases.oldStable, { loose: true })) {
-        // Behind on the old stable branch
-        // TODO - also report a newer oldstable?
-        return {
-          ok: true,
-          message: `A new stable version (v${latestReleases.currentStable.version}) is available.`,
-          link: "https://user.bitfocus.io/download?companion_inapp_stable",
-        };
-      }
+      trace?.path.push("Beta: overtaken by the current stable");
+      return {
+        ok: true,
+        advice: {
+          kind: "STABLE_UPDATE",
+          targetVersion: latestReleases.currentStable.version,
+        },
+        message: `A new stable version (v${latestReleases.currentStable.version}) is available, which is newer than this beta.`,
+        link: getDownloadLink(app, "stable", os),
+        whatsNew,
+      };
+    }
 
-      // userSem >= latestReleases.oldStable
+    const latestBeta = latestReleases.latestBetas[buildInfo.branch];
+    if (latestBeta && latestBeta.buildNumber > buildInfo.buildNumber) {
+      const buildsBehind = latestBeta.buildNumber - buildInfo.buildNumber;
+      trace?.path.push(
+        `Beta: behind the latest ${buildInfo.branch} build ${latestBeta.buildNumber}`
+      );
       return {
         ok: true,
-        message: `A new stable version (v${latestReleases.currentStable.version}) is available.`,
-        link: "https://user.bitfocus.io/download?companion_inapp_stable",
+        advice: {
+          kind: "BETA_UPDATE",
+          targetVersion: `${latestBeta.version.version}+${latestBeta.buildNumber}`,
+        },
+        message: `A newer beta build (v${latestBeta.version.version}+${
+          latestBeta.buildNumber
+        }) is available. You are ${buildsBehind} ${
+          buildsBehind === 1 ? "build" : "builds"
+        } behind.`,
+        link: getDownloadLink(app, "beta", os),
       };
     }
 
-    // Current stable branch
-    if (
-      parsedBuild.major === latestReleases.currentStable.major &&
-      parsedBuild.minor === latestReleases.currentStable.minor
-    ) {
-      if (
-        semver.eq(parsedBuild, latestReleases.currentStable, { loose: true })
-      ) {
-        return {
-          ok: true,
-          message: "",
-        };
-      }
+    trace?.path.push("Beta: no newer build is known");
+    return {
+      ok: true,
+      advice: { kind: "BETA", targetVersion: null },
+      message: "Remember, this is a beta version!",
+      link: getDownloadLink(app, "beta", os),
+    };
+  } else {
+    // Experimental
+    trace?.path.push("Experimental build");
 
-      if (
-        semver.lt(parsedBuild, latestReleases.currentStable, { loose: true })
-      ) {
-        return {
-          ok: true,
-          message: `A new bugfix release (v${latestReleases.currentStable.version}) is available.`,
-          link: "https://user.bitfocus.io/download?companion_inapp_stable",
-        };
-      }
+    return {
+      ok: true,
+      advice: { kind: "EXPERIMENTAL", targetVersion: null },
+      message:
+        "EXPERIMENTAL: Thank you for testing these experimental features!",
+      link: getDownloadLink(app, "experimental", os),
+    };
+  }
+}
 
-      // If userSem > currentStable (unexpected), fall through to default assumption below
-    }
+/**
+ * Advise an installation of a stable build, on a supported branch
+ */
+function prepareStableResponse(
+  app: AppDefinition,
+  os: UpdatesBodyType["os"],
+  parsedBuild: semver.SemVer,
+  latestReleases: LatestReleases,
+  support: BranchSupport,
+  whatsNew: string | undefined,
+  trace: UpdateDecisionTrace | null
+): AdvisedUpdatesResponse {
+  // Cases handled for stable builds:
+  // - User on current stable minor branch (major.minor == currentStable.major.minor)
+  //   - If user == currentStable => no message
+  //   - If user < currentStable => behind current (offer update)
+  // - User ahead of the known currentStable (e.g. cache is stale) => no message
+  // - User on an older supported branch
+  //   - If the branch is lts and user < latest of the branch => offer the bugfix release of the branch
+  //   - Otherwise => offer update to current
+  const { currentStable } = latestReleases;
 
-    // If the user is ahead of the known currentStable (e.g. cache is stale), don't suggest a downgrade
-    if (semver.gt(parsedBuild, latestReleases.currentStable, { loose: true })) {
+  // Current stable branch
+  if (
+    parsedBuild.major === currentStable.major &&
+    parsedBuild.minor === currentStable.minor
+  ) {
+    if (semver.eq(parsedBuild, currentStable, { loose: true })) {
+      trace?.path.push("Stable: running the current stable");
       return {
         ok: true,
+        advice: { kind: "UP_TO_DATE", targetVersion: null },
         message: "",
       };
     }
 
-    // Default assumption for any other stable case: assume on current stable branch and not latest
-    return {
-      ok: true,
-      message: `A new stable version (v${latestReleases.currentStable.version}) is available.`,
-      link: "https://user.bitfocus.io/download?companion_inapp_stable",
-    };
-  } else if (isBeta) {
-    // Beta
+    if (semver.lt(parsedBuild, currentStable, { loose: true })) {
+      trace?.path.push("Stable: behind on the current stable branch");
+      return {
+        ok: true,
+        advice: { kind: "BUGFIX_UPDATE", targetVersion: currentStable.version },
+        message: `A new bugfix release (v${currentStable.version}) is available.`,
+        link: getDownloadLink(app, "stable", os),
+        whatsNew,
+      };
+    }
 
+    // If userSem > currentStable (unexpected), fall through to the check below
+  }
+
+  // If the user is ahead of the known currentStable (e.g. cache is stale), don't suggest a downgrade
+  if (semver.gt(parsedBuild, currentStable, { loose: true })) {
+    trace?.path.push("Stable: ahead of the current stable");
     return {
       ok: true,
-      message: "Remember, this is a beta version!",
-      link: "https://user.bitfocus.io/download?companion_inapp_beta",
+      advice: { kind: "UP_TO_DATE", targetVersion: null },
+      message: "",
     };
-  } else {
-    // Experimental
+  }
 
+  // Long term support branches are offered their own bugfix releases
+  if (
+    support.lts &&
+    support.latestRelease &&
+    semver.lt(parsedBuild, support.latestRelease, { loose: true })
+  ) {
+    trace?.path.push(
+      `Stable: behind on long term support branch ${support.branch}`
+    );
     return {
       ok: true,
-      message:
-        "EXPERIMENTAL: Thank you for testing these experimental features!",
-      link: "https://companion.free?companion_inapp_beyond",
+      advice: {
+        kind: "BUGFIX_UPDATE",
+        targetVersion: support.latestRelease.version,
+      },
+      message: `A new bugfix release (v${support.latestRelease.version}) is available for this long term support version. The latest stable version is v${currentStable.version}.`,
+      link: getDownloadLink(app, "stable", os),
+      whatsNew: summarizeReleaseNotes(
+        getChangelogReleases(
+          latestReleases.stableReleases,
+          parsedBuild,
+          support.latestRelease
+        )
+      ),
     };
   }
+
+  // Any other stable build is on an older supported branch, offer the current stable
+  trace?.path.push(`Stable: on older supported branch ${support.branch}`);
+  return {
+    ok: true,
+    advice: { kind: "STABLE_UPDATE", targetVersion: currentStable.version },
+    message: `A new stable version (v${currentStable.version}) is available.`,
+    link: getDownloadLink(app, "stable", os),
+    whatsNew,
+  };
+}
+
+// Users who are otherwise up to date are only told about the end of support of their branch when it is this close
+const END_OF_SUPPORT_NOTICE_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Tell the user when the branch they are running reaches its planned end of support
+ */
+function withEndOfSupportNotice(
+  response: AdvisedUpdatesResponse,
+  support: BranchSupport,
+  trace: UpdateDecisionTrace | null,
+  now: number = Date.now()
+): AdvisedUpdatesResponse {
+  if (!support.endOfLife) return response;
+  if (
+    !response.message &&
+    support.endOfLife.getTime() - now > END_OF_SUPPORT_NOTICE_MS
+  ) {
+    return response;
+  }
+
+  const notice = `v${
+    support.branch
+  } reaches end of support on ${formatSupportDate(support.endOfLife)}.`;
+  trace?.path.push(`Branch ${support.branch} has a planned end of support`);
+  return {
+    ...response,
+    message: response.message ? `${response.message} ${notice}` : notice,
+  };
+}
+
+function formatSupportDate(date: Date): string {
+  return date.toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Record the advice given to an installation, without blocking the response
+ */
+function recordUpdateAdvice(
+  prisma: PrismaClient,
+  userInfo: UpdatesBodyType,
+  advice: UpdateAdvice
+): void {
+  writeUpdateAdvice(prisma, userInfo, advice).catch((error) => {
+    console.error("Error recording update advice in database:", error);
+    Sentry.captureException(error, { extra: { userInfo, advice } });
+  });
 }
 
 async function updateUserDb(
   prisma: PrismaClient,
   userInfo: z.infer<typeof UpdatesBody>
 ): Promise<void> {
-  await prisma.user.upsert({
-    where: {
-      user_id_app_name: {
+  const app = getAppDefinition(userInfo.app.name);
+  const appName = resolveAppName(userInfo.app.name);
+  const buildInfo = app ? parseBuildInfo(app, userInfo.app.build) : null;
+  const buildColumns = getBuildInfoColumns(buildInfo);
+
+  const where = {
+    user_id_app_name: {
+      user_id: userInfo.id,
+      app_name: appName,
+    },
+  };
+  const data = {
+    app_version: userInfo.app.version,
+    app_build: userInfo.app.build,
+    ...buildColumns,
+
+    os_platform: userInfo.os.platform,
+    os_arch: userInfo.os.arch,
+    os_release: userInfo.os.release,
+  };
+  const upsertUser = () =>
+    prisma.user.upsert({
+      where,
+      update: data,
+      create: {
         user_id: userInfo.id,
-        app_name: userInfo.app.name,
+        app_name: appName,
+        ...data,
       },
-    },
-    update: {
-      app_version: userInfo.app.version,
-      app_build: userInfo.app.build,
+    });
 
-      os_platform: userInfo.os.platform,
-      os_arch: userInfo.os.arch,
-      os_release: userInfo.os.release,
+  const previous = await prisma.user.findUnique({
+    where,
+    select: {
+      app_version: true,
+      app_build: true,
     },
-    create: {
-      user_id: userInfo.id,
+  });
+
+  // Most checks are from installations still running the same build
+  if (previous?.app_build === userInfo.app.build) {
+    await upsertUser();
+    return;
+  }
+
+  // Only the write which changes the build records the transition, in case the installation checks more than once at the same time
+  const { count } = previous
+    ? await prisma.user.updateMany({
+        where: {
+          user_id: userInfo.id,
+          app_name: appName,
+          app_build: previous.app_build,
+        },
+        data,
+      })
+    : await prisma.user.createMany({
+        data: [{ user_id: userInfo.id, app_name: appName, ...data }],
+        skipDuplicates: true,
+      });
+  if (count === 0) {
+    // Changed by another check, which records the transition
+    await upsertUser();
+    return;
+  }
 
-      app_name: userInfo.app.name,
-      app_version: userInfo.app.version,
-      app_build: userInfo.app.build,
+  // Keep a history of the versions each installation has run
+  const previousBuildInfo =
+    app && previous ? parseBuildInfo(app, previous.app_build) : null;
 
+  await prisma.userVersionTransition.create({
+    data: {
+      user_id: userInfo.id,
+      app_name: appName,
+
+      from_version: previous?.app_version ?? null,
+      from_build: previous?.app_build ?? null,
+      to_version: userInfo.app.version,
+      to_build: userInfo.app.build,
+      build_kind: buildColumns.build_branch,
       os_platform: userInfo.os.platform,
-      os_arch: userInfo.os.arch,
-      os_release: userInfo.os.release,
+
+      is_downgrade:
+        !!previousBuildInfo &&
+        !!buildInfo &&
+        isBuildDowngrade(previousBuildInfo, buildInfo),
     },
+    select: { id: true },
   });
 }
+
+/**
+ * Check whether changing between two builds is a downgrade, by version and then by build number
+ */
+function isBuildDowngrade(from: BuildInfo, to: BuildInfo): boolean {
+  const comparison = semver.compare(to.version, from.version);
+  if (comparison !== 0) return comparison < 0;
+
+  return to.buildNumber < from.buildNumber;
+}
+
+/**
+ * Build the release set provided to the explain endpoint
+ * @returns null if any of the versions are invalid
+ */
+function toExplainReleaseSet(
+  releases: NonNullable<ExplainBodyType["releases"]>
+): ReleaseSet | null {
+  const stableReleases: StableRelease[] = [];
+  for (const release of releases.stable) {
+    const version = semver.parse(release.version.replace(/^v/, ""), {
+      loose: true,
+    });
+    if (!version) return null;
+
+    stableReleases.push({
+      version,
+      publishedAt: release.publishedAt ?? new Date(0),
+      title: release.title,
+      body: release.notes,
+    });
+  }
+  stableReleases.sort((a, b) => semver.compare(b.version, a.version));
+
+  const latestBetas: ReleaseSet["latestBetas"] = {};
+  for (const [branch, beta] of Object.entries<{
+    version: string;
+    buildNumber: number;
+  }>(releases.betas)) {
+    const version = semver.parse(beta.version.replace(/^v/, ""), {
+      loose: true,
+    });
+    if (!version) return null;
+
+    latestBetas[branch] = { version, buildNumber: beta.buildNumber };
+  }
+
+  return { stableReleases, latestBetas };
+}
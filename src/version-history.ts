@@ -0,0 +1,232 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient } from "./prisma/client.js";
+import semver from "semver";
+import { getLatestReleases } from "./lib/releases.js";
+import { toUtcDay } from "./lib/stats.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Uptake percentages reported as milestones of the adoption of a release
+const ADOPTION_MILESTONES = [10, 50, 90];
+
+const AdoptionResponse = z.object({
+  ok: z.boolean(),
+  message: z.string().optional().describe("Reason for a failure"),
+  publishedAt: z.string().optional().describe("When the release was published"),
+  days: z
+    .array(
+      z.object({
+        day: z.number().describe("Days since the release was published"),
+        date: z.string(),
+        installations: z
+          .number()
+          .describe("Installations which had installed the release by then"),
+        activeInstallations: z
+          .number()
+          .nullable()
+          .describe(
+            "Installations seen in the 30 days before then, null when no snapshot was recorded"
+          ),
+        percentage: z
+          .number()
+          .nullable()
+          .describe("Percentage of the active installations"),
+      })
+    )
+    .optional(),
+  milestones: z
+    .array(
+      z.object({
+        percentage: z.number(),
+        days: z
+          .number()
+          .nullable()
+          .describe("Days from release until the percentage was reached"),
+      })
+    )
+    .optional(),
+});
+
+export function registerVersionHistoryRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/stats/versions/:app/adoption/:version",
+    params: z.object({
+      app: z.string().describe("Name of the application"),
+      version: z.string().describe("Stable release version"),
+    }),
+    query: z.object({
+      days: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(365)
+        .default(30)
+        .describe("Number of days after the release to report"),
+    }),
+    response: AdoptionResponse,
+    config: {
+      description:
+        "Get the adoption curve of a stable release, as the share of active installations which have installed it",
+      tags: ["Stats"],
+    },
+    handler: async (request) => {
+      const appName = request.params.app;
+      const version = semver.valid(request.params.version, { loose: true });
+      const release =
+        version &&
+        getLatestReleases(appName)?.stableReleases.find(
+          (r) => r.version.version === version
+        );
+      if (!version || !release) {
+        return {
+          ok: false,
+          message: "Unknown release",
+        };
+      }
+
+      const publishedAt = release.publishedAt;
+      const end = new Date(
+        Math.min(
+          publishedAt.getTime() + request.query.days * DAY_MS,
+          Date.now()
+        )
+      );
+
+      const [snapshots, firstInstalls] = await Promise.all([
+        // The active installations of each day, as they were at the time
+        prisma.activeInstallationSnapshot.findMany({
+          where: {
+            app_name: appName,
+            dimension: "ALL",
+            value: "",
+            date: { gte: toUtcDay(publishedAt), lte: end },
+          },
+          select: { date: true, monthly_active: true },
+        }),
+        // The first time each installation moved to the release
+        prisma.userVersionTransition.findMany({
+          where: {
+            app_name: appName,
+            to_version: version,
+            build_kind: { startsWith: "stable" },
+            createdAt: { gte: publishedAt, lt: end },
+          },
+          orderBy: { createdAt: "asc" },
+          distinct: ["user_id"],
+          select: { createdAt: true },
+        }),
+      ]);
+
+      const dayCount = Math.ceil(
+        (end.getTime() - publishedAt.getTime()) / DAY_MS
+      );
+      const installsPerDay = new Array<number>(dayCount).fill(0);
+      for (const install of firstInstalls) {
+        const day = Math.floor(
+          (install.createdAt.getTime() - publishedAt.getTime()) / DAY_MS
+        );
+        if (day < dayCount) installsPerDay[day]++;
+      }
+
+      const activePerDate = new Map(
+        snapshots.map((s) => [s.date.getTime(), s.monthly_active])
+      );
+
+      let installations = 0;
+      const days = installsPerDay.map((count, day) => {
+        installations += count;
+
+        // Each snapshot reflects the end of its day, so it is the closest to the end of the day since release
+        const date = new Date(publishedAt.getTime() + (day + 1) * DAY_MS);
+        const activeInstallations =
+          activePerDate.get(toUtcDay(date).getTime()) ?? null;
+        return {
+          day: day + 1,
+          date: date.toISOString(),
+          installations,
+          activeInstallations,
+          percentage: activeInstallations
+            ? (installations / activeInstallations) * 100
+            : null,
+        };
+      });
+
+      return {
+        ok: true,
+        publishedAt: publishedAt.toISOString(),
+        days,
+        milestones: ADOPTION_MILESTONES.map((percentage) => ({
+          percentage,
+          days:
+            days.find(
+              (d) => d.percentage !== null && d.percentage >= percentage
+            )?.day ?? null,
+        })),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/stats/versions/:app/downgrades",
+    params: z.object({
+      app: z.string().describe("Name of the application"),
+    }),
+    query: z.object({
+      days: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(365)
+        .default(30)
+        .describe("Number of days to report"),
+    }),
+    response: z.object({
+      ok: z.boolean(),
+      total: z.number().describe("Number of downgrades"),
+      downgrades: z.array(
+        z.object({
+          fromVersion: z.string().nullable(),
+          toVersion: z.string(),
+          count: z.number(),
+        })
+      ),
+    }),
+    config: {
+      description:
+        "Get the number of installations which changed to an older version, grouped by version",
+      tags: ["Stats"],
+    },
+    handler: async (request) => {
+      const since = new Date(Date.now() - request.query.days * DAY_MS);
+
+      const groups = await prisma.userVersionTransition.groupBy({
+        by: ["from_version", "to_version"],
+        where: {
+          app_name: request.params.app,
+          is_downgrade: true,
+          createdAt: { gte: since },
+        },
+        _count: { _all: true },
+      });
+
+      const downgrades = groups
+        .map((group) => ({
+          fromVersion: group.from_version,
+          toVersion: group.to_version,
+          count: group._count._all,
+        }))
+        .sort((a, b) => b.count - a.count);
+
+      return {
+        ok: true,
+        total: downgrades.reduce((total, d) => total + d.count, 0),
+        downgrades,
+      };
+    },
+  });
+}
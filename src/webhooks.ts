@@ -0,0 +1,220 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import crypto from "crypto";
+import * as Sentry from "@sentry/node";
+import { getAllAppDefinitions, type AppDefinition } from "./lib/apps.js";
+import {
+  getLatestReleases,
+  refreshLatestReleases,
+  type ReleaseSet,
+} from "./lib/releases.js";
+
+/** Release actions which can change the releases offered to users */
+const HANDLED_RELEASE_ACTIONS = new Set([
+  "published",
+  "edited",
+  "deleted",
+  "prereleased",
+]);
+
+const GitHubReleaseEvent = z.object({
+  action: z.string(),
+  release: z.object({
+    tag_name: z.string(),
+    name: z.string().nullable().optional(),
+    draft: z.boolean().optional(),
+    prerelease: z.boolean().optional(),
+  }),
+  repository: z.object({
+    name: z.string(),
+    owner: z.object({
+      login: z.string(),
+    }),
+  }),
+});
+
+/**
+ * Receive webhooks from GitHub, so that release changes are picked up immediately rather than at the next poll.
+ * The webhooks must be configured with the `application/json` content type, and the secret provided in the `GITHUB_WEBHOOK_SECRET` environment variable.
+ * If no secret is configured, the webhooks are rejected.
+ */
+export function registerWebhookRoutes(app: APIServer): void {
+  const webhookSecret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    console.log(
+      "GITHUB_WEBHOOK_SECRET not provided, github webhooks are disabled"
+    );
+  }
+
+  // Registered as an encapsulated plugin, so that the raw body needed to verify the signature is only kept for these routes
+  app.instance.register(async (instance) => {
+    instance.addContentTypeParser(
+      "application/json",
+      { parseAs: "buffer" },
+      (_request, body, done) => {
+        done(null, body);
+      }
+    );
+
+    instance.post("/webhooks/github", async (request, reply) => {
+      const rawBody = request.body;
+      if (
+        !webhookSecret ||
+        !Buffer.isBuffer(rawBody) ||
+        !isValidSignature(
+          request.headers["x-hub-signature-256"],
+          rawBody,
+          webhookSecret
+        )
+      ) {
+        reply.code(401);
+        return { ok: false, message: "Invalid signature" };
+      }
+
+      const eventName = request.headers["x-github-event"];
+      if (eventName === "ping") {
+        return { ok: true, message: "pong" };
+      }
+      if (eventName !== "release") {
+        return { ok: true, message: `Ignored ${eventName} event` };
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(rawBody.toString("utf8"));
+      } catch {
+        reply.code(400);
+        return { ok: false, message: "Invalid JSON" };
+      }
+
+      const event = GitHubReleaseEvent.safeParse(payload);
+      if (!event.success) {
+        reply.code(400);
+        return { ok: false, message: "Invalid release event" };
+      }
+
+      const { action, release, repository } = event.data;
+      const appDefinition = findAppByRepository(
+        repository.owner.login,
+        repository.name
+      );
+      if (!appDefinition) {
+        return {
+          ok: true,
+          message: `Ignored release of ${repository.owner.login}/${repository.name}`,
+        };
+      }
+      if (!HANDLED_RELEASE_ACTIONS.has(action)) {
+        return { ok: true, message: `Ignored ${action} release action` };
+      }
+
+      console.log(
+        "Github release webhook: %s %s %s",
+        appDefinition.name,
+        action,
+        release.tag_name
+      );
+
+      // GitHub gives up on a webhook after 10 seconds, so the refresh is done after replying
+      refreshAfterWebhook(appDefinition).catch((error) => {
+        console.error("Error refreshing releases after webhook:", error);
+        Sentry.captureException(error, { extra: { app: appDefinition.name } });
+      });
+
+      reply.code(202);
+      return { ok: true, message: "Refreshing releases" };
+    });
+  });
+}
+
+/**
+ * Refetch the releases of an app, logging what changed
+ * The rollout is based on the publish date of each release, so a refresh doesn't skip any rollout delay
+ */
+async function refreshAfterWebhook(
+  appDefinition: AppDefinition
+): Promise<void> {
+  const before = getLatestReleases(appDefinition.name);
+  await refreshLatestReleases(appDefinition.name);
+  const after = getLatestReleases(appDefinition.name);
+
+  const changes = describeReleaseChanges(before, after);
+  console.log(
+    "Releases of %s after webhook: %s",
+    appDefinition.name,
+    changes.join(", ") || "no changes"
+  );
+}
+
+function isValidSignature(
+  signatureHeader: string | string[] | undefined,
+  rawBody: Buffer,
+  secret: string
+): boolean {
+  if (typeof signatureHeader !== "string") return false;
+
+  const match = signatureHeader.match(/^sha256=([0-9a-f]{64})$/i);
+  if (!match) return false;
+
+  const provided = Buffer.from(match[1], "hex");
+  const expected = crypto.createHmac("sha256", secret).update(rawBody).digest();
+  return crypto.timingSafeEqual(provided, expected);
+}
+
+function findAppByRepository(
+  owner: string,
+  repo: string
+): AppDefinition | undefined {
+  return getAllAppDefinitions().find(
+    (app) =>
+      app.github.owner.toLowerCase() === owner.toLowerCase() &&
+      app.github.repo.toLowerCase() === repo.toLowerCase()
+  );
+}
+
+/**
+ * Describe the differences between two release sets, for logging
+ */
+function describeReleaseChanges(
+  before: ReleaseSet | null,
+  after: ReleaseSet | null
+): string[] {
+  const changes: string[] = [];
+
+  const beforeReleases = new Map(
+    (before?.stableReleases ?? []).map((r) => [r.version.version, r])
+  );
+  const afterReleases = new Map(
+    (after?.stableReleases ?? []).map((r) => [r.version.version, r])
+  );
+
+  for (const [version, release] of afterReleases) {
+    const previous = beforeReleases.get(version);
+    if (!previous) {
+      changes.push(`added v${version}`);
+    } else if (
+      previous.title !== release.title ||
+      previous.body !== release.body
+    ) {
+      changes.push(`edited v${version}`);
+    }
+  }
+  for (const version of beforeReleases.keys()) {
+    if (!afterReleases.has(version)) changes.push(`removed v${version}`);
+  }
+
+  const branches = new Set([
+    ...Object.keys(before?.latestBetas ?? {}),
+    ...Object.keys(after?.latestBetas ?? {}),
+  ]);
+  for (const branch of branches) {
+    const previous = before?.latestBetas[branch]?.buildNumber;
+    const current = after?.latestBetas[branch]?.buildNumber;
+    if (previous !== current) {
+      changes.push(
+        `${branch} build ${previous ?? "none"} -> ${current ?? "none"}`
+      );
+    }
+  }
+
+  return changes;
+}
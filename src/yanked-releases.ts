@@ -0,0 +1,237 @@
+import { z, type APIServer } from "@bitfocusas/api";
+import { PrismaClient, type YankedRelease } from "./prisma/client.js";
+import semver from "semver";
+import * as Sentry from "@sentry/node";
+import { getAppDefinition } from "./lib/apps.js";
+import { refreshLatestReleases } from "./lib/releases.js";
+import { setYankedReleases } from "./lib/yanked-releases.js";
+
+const YankedReleaseObject = z.object({
+  app: z.string().describe("Name of the application"),
+  version: z.string().describe("The withdrawn release version"),
+  reason: z.string().nullable().describe("Shown to users running the release"),
+  replacementVersion: z
+    .string()
+    .nullable()
+    .describe("Version to install instead, defaults to the current stable"),
+  createdAt: z.string(),
+});
+
+const YankedReleaseParams = z.object({
+  app: z.string().describe("Name of the application"),
+  version: z.string().describe("Release version"),
+});
+
+const YankedReleaseResponse = z.object({
+  ok: z.boolean(),
+  message: z.string().optional().describe("Reason for a failure"),
+  release: YankedReleaseObject.optional(),
+});
+
+export function registerYankedReleaseRoutes(
+  app: APIServer,
+  prisma: PrismaClient
+): void {
+  app.createEndpoint({
+    method: "GET",
+    url: "/admin/yanked-releases",
+    response: z.object({
+      ok: z.boolean(),
+      releases: z.array(YankedReleaseObject),
+    }),
+    config: {
+      description: "List the withdrawn releases",
+      tags: ["Admin"],
+    },
+    handler: async () => {
+      const rows = await prisma.yankedRelease.findMany({
+        orderBy: [{ createdAt: "desc" }],
+      });
+
+      return {
+        ok: true,
+        releases: rows.map(formatYankedReleaseRow),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "PUT",
+    url: "/admin/yanked-releases/:app/:version",
+    params: YankedReleaseParams,
+    body: z.object({
+      reason: z
+        .string()
+        .max(255)
+        .optional()
+        .describe("Shown to users running the release"),
+      replacementVersion: z
+        .string()
+        .max(32)
+        .refine((version: string) => semver.valid(version) !== null, {
+          message: "Invalid version",
+        })
+        .optional()
+        .describe("Version to install instead, defaults to the current stable"),
+    }),
+    response: YankedReleaseResponse,
+    config: {
+      description: "Withdraw a release",
+      tags: ["Admin"],
+    },
+    handler: async (request, reply) => {
+      const appDefinition = getAppDefinition(request.params.app);
+      if (!appDefinition) {
+        reply.code(400);
+        return {
+          ok: false,
+          message: "Unknown application",
+        };
+      }
+
+      const appName = appDefinition.name;
+      const version = semver.valid(request.params.version);
+      if (!version) {
+        return {
+          ok: false,
+          message: "Invalid version",
+        };
+      }
+
+      const data = {
+        reason: request.body.reason || null,
+        replacement_version: request.body.replacementVersion
+          ? semver.valid(request.body.replacementVersion)
+          : null,
+      };
+      const row = await prisma.yankedRelease.upsert({
+        where: {
+          app_name_version: {
+            app_name: appName,
+            version,
+          },
+        },
+        update: data,
+        create: {
+          app_name: appName,
+          version,
+          ...data,
+        },
+      });
+
+      console.log(
+        "Release %s v%s withdrawn: %s",
+        appName,
+        version,
+        data.reason ?? "no reason given"
+      );
+
+      await refreshYankedReleases(prisma);
+      await refreshLatestReleases(appName);
+
+      return {
+        ok: true,
+        release: formatYankedReleaseRow(row),
+      };
+    },
+  });
+
+  app.createEndpoint({
+    method: "DELETE",
+    url: "/admin/yanked-releases/:app/:version",
+    params: YankedReleaseParams,
+    response: YankedReleaseResponse,
+    config: {
+      description: "Restore a withdrawn release",
+      tags: ["Admin"],
+    },
+    handler: async (request) => {
+      const appName =
+        getAppDefinition(request.params.app)?.name ?? request.params.app;
+      const version = semver.valid(request.params.version);
+
+      const { count } = version
+        ? await prisma.yankedRelease.deleteMany({
+            where: { app_name: appName, version },
+          })
+        : { count: 0 };
+      if (count === 0) {
+        return {
+          ok: false,
+          message: "Unknown withdrawn release",
+        };
+      }
+
+      console.log("Release %s v%s restored", appName, version);
+
+      await refreshYankedReleases(prisma);
+      await refreshLatestReleases(appName);
+
+      return {
+        ok: true,
+      };
+    },
+  });
+}
+
+function formatYankedReleaseRow(
+  row: YankedRelease
+): z.infer<typeof YankedReleaseObject> {
+  return {
+    app: row.app_name,
+    version: row.version,
+    reason: row.reason,
+    replacementVersion: row.replacement_version,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+let lastYankedReleasesKey = "[]";
+
+/**
+ * Load the yanked releases
+ * @returns Whether the set of yanked releases changed
+ */
+async function refreshYankedReleases(prisma: PrismaClient): Promise<boolean> {
+  const rows = await prisma.yankedRelease.findMany({
+    select: {
+      app_name: true,
+      version: true,
+      reason: true,
+      replacement_version: true,
+    },
+    orderBy: [{ app_name: "asc" }, { version: "asc" }],
+  });
+
+  const key = JSON.stringify(rows.map((r) => [r.app_name, r.version]));
+  const changed = key !== lastYankedReleasesKey;
+  lastYankedReleasesKey = key;
+
+  setYankedReleases(rows);
+
+  return changed;
+}
+
+/**
+ * Load the yanked releases, and keep them updated in case they are changed by another instance.
+ * Whenever they change, the releases are refetched so that withdrawn releases are excluded
+ */
+export async function startYankedReleasesRefresh(
+  prisma: PrismaClient
+): Promise<void> {
+  const doRefresh = () =>
+    refreshYankedReleases(prisma)
+      .then(async (changed) => {
+        if (changed) await refreshLatestReleases();
+      })
+      .catch((err) => {
+        console.error("Error loading yanked releases:", err);
+        Sentry.captureException(err, {});
+      });
+
+  setInterval(() => {
+    doRefresh();
+  }, 60 * 1000);
+
+  await doRefresh();
+}